@@ -2,8 +2,8 @@ import {
     SelectionOptions, 
     ProcessedFile, 
     UnProcessedFile,
-    FileError,
-    RuleInfo
+    RuleInfo,
+    ProcessingContext
 } from './src/types/common';
 
 import { ImageRuleInfo } from './src/types/image';
@@ -11,99 +11,77 @@ import { VideoRuleInfo } from './src/types/video';
 import { AudioRuleInfo } from './src/types/audio';
 import { DocumentRuleInfo } from './src/types/document';
 import { ArchiveRuleInfo } from './src/types/archive';
+import { MediaCaptureOptions, MediaCaptureSession } from './src/types/capture';
 
 import { processImageFile } from './src/utils/image.utils';
 import { processVideoFile } from './src/utils/video.utils';
 import { processAudioFile } from './src/utils/audio.utils';
 import { processDocumentFile } from './src/utils/document.utils';
-import { processArchiveFile } from './src/utils/archive.utils';
+import { processArchiveFile, ArchiveChildProcessor } from './src/utils/archive.utils';
+import {
+    detectFileType,
+    validateFile,
+    findRuleForFile,
+    detectMimeType,
+    checkFileTypeMismatch,
+    resolveMimeType,
+    validateSelectionCount,
+    getSelectionFile
+} from './src/utils/validation.utils';
+import { createAbortedResult } from './src/utils/abort.utils';
+import { revokeFileUrls } from './src/utils/url.utils';
+import { mapWithConcurrency } from './src/utils/concurrency.utils';
+import { createProgressReporter, FileProgressCallback } from './src/utils/progress.utils';
+import { createFileId } from './src/utils/id.utils';
+import { createFileError } from './src/utils/i18n.utils';
+import { getClipboardFiles, openMediaCapture } from './src/utils/capture.utils';
 
 /**
  * MediaHelper class with native file selection and processing
  */
 export class MediaHelper {
     /**
-     * Detect file type based on MIME type and extension
+     * Dispatch a validated file to its type-specific processor
      */
-    private static detectFileType(file: File): string {
-        const mimeType = file.type.toLowerCase();
-        const extension = file.name.split('.').pop()?.toLowerCase() || '';
-
-        // Check by MIME type first
-        if (mimeType.startsWith('image/')) return 'image';
-        if (mimeType.startsWith('video/')) return 'video';
-        if (mimeType.startsWith('audio/')) return 'audio';
-        if (mimeType.startsWith('application/pdf') || 
-            mimeType.startsWith('application/msword') ||
-            mimeType.startsWith('application/vnd.') ||
-            mimeType.startsWith('text/')) return 'document';
-        
-        // Check by extension as fallback
-        if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'ico', 'tiff', 'avif', 'heic', 'heif'].includes(extension)) {
-            return 'image';
-        }
-        if (['mp4', 'avi', 'mov', 'wmv', 'flv', 'mkv', 'webm', 'm4v', 'mpg', 'mpeg', '3gp'].includes(extension)) {
-            return 'video';
-        }
-        if (['mp3', 'wav', 'ogg', 'aac', 'flac', 'wma', 'm4a', 'opus', 'aiff'].includes(extension)) {
-            return 'audio';
-        }
-        if (['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'odt'].includes(extension)) {
-            return 'document';
-        }
-        if (['zip', 'rar', 'tar', 'gz', '7z'].includes(extension)) {
-            return 'archive';
-        }
-
-        return 'unknown';
-    }
-
-    /**
-     * Check if MIME type matches the allowed patterns (supports wildcards like image/*)
-     */
-    private static matchesMimeType(fileMimeType: string, allowedMimeTypes: string[]): boolean {
-        return allowedMimeTypes.some(allowed => {
-            if (allowed.endsWith('/*')) {
-                const prefix = allowed.slice(0, -2);
-                return fileMimeType.startsWith(prefix + '/');
-            }
-            return fileMimeType === allowed;
-        });
-    }
-
-    /**
-     * Validate a single file against rules
-     */
-    private static validateFile(file: File, rules?: RuleInfo): FileError | null {
-        if (!rules) return null;
-
-        // Check MIME type
-        if (rules.allowedMimeTypes && !this.matchesMimeType(file.type, rules.allowedMimeTypes)) {
-            return {
-                fileName: file.name,
-                errorCode: 'file-invalid-type',
-                message: `File type ${file.type} is not allowed`
-            };
-        }
-
-        // Check file size
-        if (rules.minFileSize && file.size < rules.minFileSize) {
-            return {
-                fileName: file.name,
-                errorCode: 'file-too-small',
-                message: `File is too small. Minimum size: ${(rules.minFileSize / 1024 / 1024).toFixed(2)} MB`
-            };
-        }
-
-        if (rules.maxFileSize && file.size > rules.maxFileSize) {
-            return {
-                fileName: file.name,
-                errorCode: 'file-too-large',
-                message: `File is too large. Maximum size: ${(rules.maxFileSize / 1024 / 1024).toFixed(2)} MB`
-            };
+    private static processByType(
+        fileType: string,
+        file: File,
+        rules?: RuleInfo | AudioRuleInfo | DocumentRuleInfo | ImageRuleInfo | VideoRuleInfo | ArchiveRuleInfo,
+        onProgress?: FileProgressCallback,
+        context?: ProcessingContext,
+        processChildren?: ArchiveChildProcessor
+    ): Promise<ProcessedFile | UnProcessedFile> {
+        switch (fileType) {
+            case 'image':
+                return processImageFile(file, rules as ImageRuleInfo, onProgress, context);
+            
+            case 'video':
+                return processVideoFile(file, rules as VideoRuleInfo, onProgress, context);
+            
+            case 'audio':
+                return processAudioFile(file, rules as AudioRuleInfo, onProgress, context);
+            
+            case 'document':
+                return processDocumentFile(file, rules as DocumentRuleInfo, onProgress);
+            
+            case 'archive':
+                return processArchiveFile(file, rules as ArchiveRuleInfo, onProgress, context, processChildren);
+            
+            default:
+                // Unknown file type
+                return Promise.resolve({
+                    processType: 'unprocessed',
+                    meta: {
+                        name: file.name,
+                        size: file.size,
+                        type: fileType,
+                        extension: '.' + file.name.split('.').pop()!.toLowerCase(),
+                        mimeType: file.type
+                    },
+                    originalFile: file,
+                    reason: createFileError(file.name, 'unknown-file-type', { type: fileType })
+                });
         }
-
-        return null;
     }
 
     /**
@@ -112,24 +90,35 @@ export class MediaHelper {
     private static async processFile(
         file: File, 
         rules?: RuleInfo | AudioRuleInfo | DocumentRuleInfo | ImageRuleInfo | VideoRuleInfo | ArchiveRuleInfo,
-        onProgress?: (progress: any) => void,
-        currentIndex?: number,
-        totalFiles?: number
+        onProgress?: FileProgressCallback,
+        detectedMimeType?: string,
+        context?: ProcessingContext,
+        processChildren?: ArchiveChildProcessor
     ): Promise<ProcessedFile | UnProcessedFile> {
-        const fileType = this.detectFileType(file);
+        // Files without a declared type (e.g. HEIC on Windows) take the sniffed one
+        if (!file.type && detectedMimeType) {
+            file = new File([file], file.name, { type: detectedMimeType, lastModified: file.lastModified });
+        }
+
+        const mimeType = resolveMimeType(file, detectedMimeType);
+        const fileType = detectFileType({ name: file.name, type: mimeType });
         const extension = '.' + file.name.split('.').pop()!.toLowerCase();
         
         // Create meta object
-        const meta = {
+        const meta: UnProcessedFile['meta'] = {
             name: file.name,
             size: file.size,
             type: fileType,
             extension,
-            mimeType: file.type
+            mimeType
         };
+        if (mimeType !== file.type) {
+            meta.declaredMimeType = file.type;
+        }
 
-        // Validate file
-        const validationError = this.validateFile(file, rules as RuleInfo);
+        // Validate file against its real type
+        const validationError = validateFile({ name: file.name, size: file.size, type: mimeType }, rules as RuleInfo)
+            || checkFileTypeMismatch(file, detectedMimeType);
         if (validationError) {
             return {
                 processType: 'unprocessed',
@@ -140,61 +129,12 @@ export class MediaHelper {
         }
 
         // Process based on file type with specific rules
-        switch (fileType) {
-            case 'image':
-                return processImageFile(file, rules as ImageRuleInfo, onProgress, currentIndex, totalFiles);
-            
-            case 'video':
-                return processVideoFile(file, rules as VideoRuleInfo, onProgress, currentIndex, totalFiles);
-            
-            case 'audio':
-                return processAudioFile(file, rules as AudioRuleInfo, onProgress, currentIndex, totalFiles);
-            
-            case 'document':
-                return processDocumentFile(file, rules as DocumentRuleInfo, onProgress, currentIndex, totalFiles);
-            
-            case 'archive':
-                return processArchiveFile(file, rules as ArchiveRuleInfo, onProgress, currentIndex, totalFiles);
-            
-            default:
-                // Unknown file type
-                return {
-                    processType: 'unprocessed',
-                    meta,
-                    originalFile: file,
-                    reason: {
-                        fileName: file.name,
-                        errorCode: 'unknown-file-type',
-                        message: `Unknown file type: ${fileType}`
-                    }
-                };
-        }
-    }
-
-    /**
-     * Find the appropriate rule for a file based on its type
-     */
-    private static findRuleForFile(
-        file: File, 
-        rules?: (RuleInfo | AudioRuleInfo | DocumentRuleInfo | ImageRuleInfo | VideoRuleInfo | ArchiveRuleInfo)[]
-    ): RuleInfo | AudioRuleInfo | DocumentRuleInfo | ImageRuleInfo | VideoRuleInfo | ArchiveRuleInfo | undefined {
-        if (!rules || rules.length === 0) return undefined;
-        
-        // Find a rule that matches this file's type
-        for (const rule of rules) {
-            // Check if rule's allowedMimeTypes match this file
-            if (rule.allowedMimeTypes) {
-                if (this.matchesMimeType(file.type, rule.allowedMimeTypes)) {
-                    return rule;
-                }
-            } else {
-                // If no specific mime types, use the first rule as default
-                return rule;
-            }
+        const result = await this.processByType(fileType, file, rules, onProgress, context, processChildren);
+        result.meta.mimeType = meta.mimeType;
+        if (meta.declaredMimeType !== undefined) {
+            result.meta.declaredMimeType = meta.declaredMimeType;
         }
-        
-        // If no specific rule found, return first rule as fallback
-        return rules[0];
+        return result;
     }
 
     /**
@@ -208,64 +148,114 @@ export class MediaHelper {
             return [];
         }
 
-        const results: (ProcessedFile | UnProcessedFile)[] = [];
+        // Check selection count constraints, files past the maximum are not processed
+        const selectionErrors = validateSelectionCount(files, options?.rules);
+
+        const signal = options?.signal;
+        const context = { signal, useWorker: options?.useWorker };
+
+        // Ids are assigned up front so progress events and results can be matched
+        const ids = files.map(() => createFileId());
+        const progressFor = createProgressReporter(
+            files.map((file, i) => ({ id: ids[i], name: file.name })),
+            options?.onProgress
+        );
 
-        // Check selection count constraints using first rule if available
-        const firstRule = options?.rules?.[0];
-        if (firstRule?.minSelectionCount && files.length < firstRule.minSelectionCount) {
-            // Return all files as unprocessed with error
-            return files.map(file => {
-                const extension = '.' + file.name.split('.').pop()!.toLowerCase();
-                const fileType = this.detectFileType(file);
-                
+        // Files extracted from archives (ArchiveRuleInfo.extract) get the same rules, without
+        // the selection counts (maxEntries limits them) and without extracting inner archives again
+        const processChildren: ArchiveChildProcessor = (children, onChildProgress) => this.processFiles(children, {
+            ...options,
+            rules: options?.rules?.map((rule): ArchiveRuleInfo => ({
+                ...rule,
+                minSelectionCount: undefined,
+                maxSelectionCount: undefined,
+                extract: false
+            })),
+            onProgress: onChildProgress
+        });
+
+        const processAt = async (file: File, i: number): Promise<ProcessedFile | UnProcessedFile> => {
+            const selectionError = selectionErrors[i];
+            if (selectionError) {
                 return {
-                    processType: 'unprocessed' as const,
-                    meta: {
-                        name: file.name,
-                        size: file.size,
-                        type: fileType,
-                        extension,
-                        mimeType: file.type
-                    },
+                    processType: 'unprocessed',
+                    meta: getSelectionFile(file),
                     originalFile: file,
-                    reason: {
-                        fileName: file.name,
-                        errorCode: 'too-few-files',
-                        message: `Minimum ${firstRule.minSelectionCount} file(s) required`
-                    }
+                    reason: selectionError
                 };
-            });
-        }
+            }
 
-        if (firstRule?.maxSelectionCount && files.length > firstRule.maxSelectionCount) {
-            // Process only up to max count
-            files = files.slice(0, firstRule.maxSelectionCount);
-        }
+            // Files not reached before cancellation are not touched at all
+            if (signal?.aborted) {
+                return createAbortedResult(file, getSelectionFile(file));
+            }
+
+            const reportProgress = progressFor(i);
+            reportProgress('validating', 0);
 
-        // Process each file with appropriate rule
-        for (let i = 0; i < files.length; i++) {
-            const rule = this.findRuleForFile(files[i], options?.rules);
+            // Sniff the real type from magic bytes instead of trusting MIME and extension
+            let detectedMimeType: string | undefined;
+            try {
+                detectedMimeType = await detectMimeType(file);
+            } catch {
+                return {
+                    processType: 'unprocessed',
+                    meta: getSelectionFile(file),
+                    originalFile: file,
+                    reason: createFileError(file.name, 'file-type-detection-error')
+                };
+            }
+            const rule = findRuleForFile({ type: resolveMimeType(file, detectedMimeType) }, options?.rules);
             const result = await this.processFile(
-                files[i], 
+                file, 
                 rule, 
-                options?.onProgress,
-                i,
-                files.length
+                reportProgress,
+                detectedMimeType,
+                context,
+                processChildren
             );
-            results.push(result);
-        }
 
-        return results;
+            // Aborted while this file was in flight: drop whatever it produced
+            if (signal?.aborted && result.processType === 'processed') {
+                revokeFileUrls(result);
+                return createAbortedResult(file, result.meta);
+            }
+            return result;
+        };
+
+        // Process files with appropriate rules, several at a time when concurrency is set
+        return mapWithConcurrency(files, options?.concurrency || 1, async (file, i) => {
+            const result = await processAt(file, i);
+
+            // Rejected files end their progress as well, cancelled ones just stop
+            if (result.processType === 'unprocessed' && result.reason.errorCode !== 'aborted') {
+                progressFor(i)('error', 1);
+            }
+
+            result.id = ids[i];
+            if (result.processType === 'processed') {
+                result.children?.forEach(child => {
+                    child.parentId = ids[i];
+                });
+            }
+            return result;
+        });
     }
 
     /**
-     * Open native file picker and process files
+     * Open native file picker and resolve the selected files without processing them.
+     * Resolves an empty array when the picker is closed without a selection.
      */
-    static async pickMixed(options?: SelectionOptions): Promise<(ProcessedFile | UnProcessedFile)[]> {
+    static async pickFiles(options?: Pick<SelectionOptions, 'rules' | 'capture'>): Promise<File[]> {
         return new Promise((resolve) => {
             const input = document.createElement('input');
             input.type = 'file';
             input.multiple = true;
+
+            // Mobile browsers open the camera/microphone instead of the file picker
+            if (options?.capture) {
+                input.setAttribute('capture', options.capture === true ? '' : options.capture);
+            }
             
             // Collect all allowed mime types from all rules
             if (options?.rules && options.rules.length > 0) {
@@ -281,17 +271,54 @@ export class MediaHelper {
                 }
             }
 
-            input.onchange = async (e) => {
+            input.onchange = (e) => {
                 const target = e.target as HTMLInputElement;
-                const files = Array.from(target.files || []);
-                const results = await this.processFiles(files, options);
-                resolve(results);
+                resolve(Array.from(target.files || []));
             };
 
+            // Fired by current browsers when the dialog is dismissed
+            input.addEventListener('cancel', () => resolve([]));
+
             input.click();
         });
     }
 
+    /**
+     * Open native file picker and process files
+     */
+    static async pickMixed(options?: SelectionOptions): Promise<(ProcessedFile | UnProcessedFile)[]> {
+        const files = await this.pickFiles(options);
+        return this.processFiles(files, options);
+    }
+
+    /**
+     * Process the files of a paste event (e.g. a pasted screenshot) with the same rules
+     */
+    static async processClipboard(
+        event: ClipboardEvent | DataTransfer,
+        options?: SelectionOptions
+    ): Promise<(ProcessedFile | UnProcessedFile)[]> {
+        const files = getClipboardFiles(event);
+        return files.length > 0 ? this.processFiles(files, options) : [];
+    }
+
+    /**
+     * Open the camera/microphone, photos and recordings are processed with the same rules
+     */
+    static async openCapture(
+        captureOptions: MediaCaptureOptions,
+        options?: SelectionOptions
+    ): Promise<MediaCaptureSession<ProcessedFile | UnProcessedFile>> {
+        const session = await openMediaCapture(captureOptions);
+        const process = async (file: File) => (await this.processFiles([file], options))[0];
+
+        return {
+            ...session,
+            takePhoto: async () => process(await session.takePhoto()),
+            stopRecording: async () => process(await session.stopRecording())
+        };
+    }
+
     /**
      * Process files directly (for dropzone or external use)
      */
@@ -311,10 +338,33 @@ export * from './src/types/video';
 export * from './src/types/audio';
 export * from './src/types/document';
 export * from './src/types/archive';
+export * from './src/types/upload';
+export * from './src/types/i18n';
+export * from './src/types/capture';
 
-// Export component
+// Export utilities
+export { configureFFmpeg } from './src/utils/ffmpeg.utils';
+export type { FFmpegConfig } from './src/utils/ffmpeg.utils';
+export { configurePdfJs } from './src/utils/pdf.utils';
+export type { PdfJsConfig } from './src/utils/pdf.utils';
+export { buildSrcSet } from './src/utils/srcset.utils';
+export { uploadFiles, createMemoryResumeStore } from './src/utils/upload.utils';
+export { uploadToPresignedUrls } from './src/utils/presigned.utils';
+export { locales, resolveLocale, formatMessage, formatFileError, formatBytes } from './src/utils/i18n.utils';
+export type { LocaleName } from './src/utils/i18n.utils';
+export { getClipboardFiles, readClipboardFiles, openMediaCapture } from './src/utils/capture.utils';
+
+// Export components
 export { MediaDropzone } from './src/components/MediaDropzone';
 export type { MediaDropzoneProps } from './src/components/MediaDropzone';
+export { MediaPreviewList } from './src/components/MediaPreviewList';
+export type { MediaPreviewListProps, MediaPreviewItemHelpers } from './src/components/MediaPreviewList';
+export { MediaCropper } from './src/components/MediaCropper';
+export type { MediaCropperProps } from './src/components/MediaCropper';
+
+// Export hooks
+export { useMediaHelper } from './src/hooks/useMediaHelper';
+export type { MediaHelperFile, UseMediaHelperResult } from './src/hooks/useMediaHelper';
 
 // Export as default
 export default MediaHelper;
\ No newline at end of file
@@ -0,0 +1,424 @@
+import sharp from 'sharp';
+
+import {
+    SelectionOptions,
+    ProcessedFile,
+    UnProcessedFile,
+    RuleInfo,
+    FileError
+} from './src/types/common';
+import { UploadRouteFile, UploadRouteOptions, UploadRouteResponse } from './src/types/upload';
+
+import { ImageRuleInfo } from './src/types/image';
+import { DocumentRuleInfo, DocumentInfo } from './src/types/document';
+import { ArchiveRuleInfo } from './src/types/archive';
+
+import { processImageBuffer, toServerExportedFile } from './src/utils/image.server.utils';
+import {
+    detectFileType,
+    validateFile,
+    findRuleForFile,
+    detectMimeType,
+    checkFileTypeMismatch,
+    resolveMimeType,
+    validateSelectionCount,
+    getSelectionFile,
+    validateDocumentInfo,
+    validateArchiveInfo,
+    hasArchiveContentRules
+} from './src/utils/validation.utils';
+import { getOfficeFormat, readOfficeDocument } from './src/utils/office.utils';
+import { getTextFormat, readTextDocument } from './src/utils/text.utils';
+import { readArchive } from './src/utils/archive.reader.utils';
+import { createAbortedResult } from './src/utils/abort.utils';
+import { mapWithConcurrency } from './src/utils/concurrency.utils';
+import { createFileId } from './src/utils/id.utils';
+import { createFileError } from './src/utils/i18n.utils';
+
+/**
+ * Server-side upload input: a Web File (from request.formData()), a raw buffer
+ * or a buffer with its original name and MIME type
+ */
+export type ServerFileInput =
+    | File
+    | Buffer
+    | Uint8Array
+    | ArrayBuffer
+    | {
+        buffer: Buffer | Uint8Array | ArrayBuffer;
+        name: string;
+        mimeType?: string;
+    };
+
+/**
+ * Server-side counterpart of MediaHelper, backed by sharp instead of canvas.
+ * Safe to use in Next.js Route Handlers and Server Actions (Node.js runtime).
+ */
+export class MediaServerHelper {
+    /**
+     * Normalize any supported input into a Web File and its Buffer
+     */
+    private static async toFile(input: ServerFileInput, index: number): Promise<{ file: File; buffer: Buffer }> {
+        if (Buffer.isBuffer(input) || input instanceof Uint8Array || input instanceof ArrayBuffer) {
+            const buffer = Buffer.from(input as Uint8Array);
+            // Raw buffers have no name or type, let sharp recognise images
+            const format = await sharp(buffer).metadata()
+                .then(metadata => metadata.format)
+                .catch(() => undefined);
+            const extension = format === 'jpeg' ? 'jpg' : format || 'bin';
+            const mimeType = format ? `image/${format}` : 'application/octet-stream';
+            return {
+                file: new File([buffer], `upload_${index + 1}.${extension}`, { type: mimeType }),
+                buffer
+            };
+        }
+
+        if ('arrayBuffer' in input) {
+            return { file: input, buffer: Buffer.from(await input.arrayBuffer()) };
+        }
+
+        const buffer = Buffer.from(input.buffer as Uint8Array);
+        return {
+            file: new File([buffer], input.name, { type: input.mimeType || '' }),
+            buffer
+        };
+    }
+
+    /**
+     * Process a single file with type-specific rules
+     */
+    private static async processFile(
+        file: File,
+        buffer: Buffer,
+        rules?: RuleInfo,
+        detectedMimeType?: string
+    ): Promise<ProcessedFile | UnProcessedFile> {
+        // Uploads without a declared type take the sniffed one
+        if (!file.type && detectedMimeType) {
+            file = new File([buffer], file.name, { type: detectedMimeType, lastModified: file.lastModified });
+        }
+
+        const mimeType = resolveMimeType(file, detectedMimeType);
+        const fileType = detectFileType({ name: file.name, type: mimeType });
+        const extension = '.' + file.name.split('.').pop()!.toLowerCase();
+
+        // Create meta object
+        const meta: UnProcessedFile['meta'] = {
+            name: file.name,
+            size: file.size,
+            type: fileType,
+            extension,
+            mimeType
+        };
+        if (mimeType !== file.type) {
+            meta.declaredMimeType = file.type;
+        }
+
+        // Validate file against its real type
+        const validationError = validateFile({ name: file.name, size: file.size, type: mimeType }, rules)
+            || checkFileTypeMismatch(file, detectedMimeType);
+        if (validationError) {
+            return {
+                processType: 'unprocessed',
+                meta,
+                originalFile: file,
+                reason: validationError
+            };
+        }
+
+        if (fileType === 'image') {
+            const result = await processImageBuffer(buffer, file, rules as ImageRuleInfo);
+            result.meta.mimeType = meta.mimeType;
+            if (meta.declaredMimeType !== undefined) {
+                result.meta.declaredMimeType = meta.declaredMimeType;
+            }
+            return result;
+        }
+
+        if (fileType === 'unknown') {
+            return {
+                processType: 'unprocessed',
+                meta,
+                originalFile: file,
+                reason: createFileError(file.name, 'unknown-file-type', { type: fileType })
+            };
+        }
+
+        // Office documents are plain ZIP/XML and text files need no decoder, so their rules
+        // are checked here too (PDFs need pdf.js)
+        const officeFormat = fileType === 'document' ? getOfficeFormat(file) : undefined;
+        const textFormat = fileType === 'document' && !officeFormat ? getTextFormat(file) : undefined;
+        if (officeFormat || textFormat) {
+            const documentRules = rules as DocumentRuleInfo | undefined;
+            try {
+                let info: DocumentInfo;
+                let content: string | undefined;
+                if (officeFormat) {
+                    ({ info } = await readOfficeDocument(file, officeFormat, documentRules?.snippetLength));
+                } else {
+                    ({ info, content } = await readTextDocument(file, textFormat!, documentRules?.snippetLength));
+                }
+                const documentError = validateDocumentInfo(file.name, info, documentRules);
+                if (documentError) {
+                    return {
+                        processType: 'unprocessed',
+                        meta,
+                        originalFile: file,
+                        reason: documentError
+                    };
+                }
+
+                const stored = documentRules?.normalizeText && content !== undefined ? Buffer.from(content, 'utf8') : buffer;
+                return {
+                    processType: 'processed',
+                    meta,
+                    originalFile: file,
+                    processed: toServerExportedFile(stored, file.name, fileType, file.type, rules as ImageRuleInfo),
+                    document: info
+                };
+            } catch {
+                // A file that can't be opened can't be checked for macros or rows either
+                if (documentRules?.rejectMacros || textFormat) {
+                    return {
+                        processType: 'unprocessed',
+                        meta,
+                        originalFile: file,
+                        reason: createFileError(file.name, 'document-processing-error')
+                    };
+                }
+            }
+        }
+
+        // Archive listing only needs DecompressionStream, available in Node 18+
+        if (fileType === 'archive') {
+            const archiveRules = rules as ArchiveRuleInfo | undefined;
+            // Broken files are treated like unsupported formats
+            const archive = await readArchive(file, {
+                maxEntries: archiveRules?.maxEntries,
+                maxTotalSize: archiveRules?.maxTotalUncompressedSize
+            }).catch(() => undefined);
+
+            const archiveError = archive
+                ? validateArchiveInfo(file.name, archive, archiveRules)
+                // rar, 7z or broken files can't be checked against the content rules
+                : hasArchiveContentRules(archiveRules) ? createFileError(file.name, 'archive-processing-error') : null;
+            if (archiveError) {
+                return {
+                    processType: 'unprocessed',
+                    meta,
+                    originalFile: file,
+                    reason: archiveError
+                };
+            }
+
+            return {
+                processType: 'processed',
+                meta,
+                originalFile: file,
+                processed: toServerExportedFile(buffer, file.name, fileType, file.type, rules as ImageRuleInfo),
+                ...(archive && { archive })
+            };
+        }
+
+        // Other media types are validated only, decoding them needs browser APIs
+        return {
+            processType: 'processed',
+            meta,
+            originalFile: file,
+            processed: toServerExportedFile(buffer, file.name, fileType, file.type, rules as ImageRuleInfo)
+        };
+    }
+
+    /**
+     * Process uploads and return array of ProcessedFile and UnProcessedFile
+     */
+    static async processFiles(
+        inputs: ServerFileInput[],
+        options?: Pick<SelectionOptions, 'rules' | 'signal' | 'concurrency'>
+    ): Promise<(ProcessedFile | UnProcessedFile)[]> {
+        if (!inputs || inputs.length === 0) {
+            return [];
+        }
+
+        const entries = await Promise.all(inputs.map((input, index) => this.toFile(input, index)));
+
+        // Same selection count rules as the browser, files past the maximum are not processed
+        const selectionErrors = validateSelectionCount(entries.map(({ file }) => file), options?.rules);
+
+        // sharp works on its own thread pool, concurrency lets several uploads use it at once
+        const results = await mapWithConcurrency(entries, options?.concurrency || 1, async ({ file, buffer }, index): Promise<ProcessedFile | UnProcessedFile> => {
+            const selectionError = selectionErrors[index];
+            if (selectionError) {
+                return {
+                    processType: 'unprocessed',
+                    meta: getSelectionFile(file),
+                    originalFile: file,
+                    reason: selectionError
+                };
+            }
+
+            // e.g. request.signal when the client disconnects
+            if (options?.signal?.aborted) {
+                return createAbortedResult(file, getSelectionFile(file));
+            }
+
+            let detectedMimeType: string | undefined;
+            try {
+                detectedMimeType = await detectMimeType(file);
+            } catch {
+                return {
+                    processType: 'unprocessed',
+                    meta: getSelectionFile(file),
+                    originalFile: file,
+                    reason: createFileError(file.name, 'file-type-detection-error')
+                };
+            }
+            const rule = findRuleForFile({ type: resolveMimeType(file, detectedMimeType) }, options?.rules);
+            return this.processFile(file, buffer, rule, detectedMimeType);
+        });
+
+        // Results carry an id like in the browser, e.g. to match them with stored uploads
+        return results.map(result => ({ ...result, id: createFileId() }));
+    }
+}
+
+/**
+ * JSON safe summary of a processed upload
+ */
+function toRouteFile(result: ProcessedFile): UploadRouteFile {
+    const { processed } = result;
+    return {
+        ...result.meta,
+        processed: {
+            name: processed.name,
+            size: processed.size,
+            mimeType: processed.mimeType,
+            ...(processed.width !== undefined && { width: processed.width, height: processed.height })
+        }
+    };
+}
+
+/**
+ * JSON response with the given status
+ */
+function jsonResponse(body: UploadRouteResponse, status: number): Response {
+    return new Response(JSON.stringify(body), {
+        status,
+        headers: { 'Content-Type': 'application/json' }
+    });
+}
+
+/**
+ * Count the request body while it streams and fail once it passes maxSize.
+ * Chunked requests have no Content-Length and a client can send a wrong one.
+ */
+function limitRequestBody(body: ReadableStream<Uint8Array>, maxSize: number, onExceeded: () => void): ReadableStream<Uint8Array> {
+    let received = 0;
+    return body.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+        transform(chunk, controller) {
+            received += chunk.length;
+            if (received > maxSize) {
+                onExceeded();
+                controller.error(new Error(`Request body is larger than ${maxSize} bytes`));
+                return;
+            }
+            controller.enqueue(chunk);
+        }
+    }));
+}
+
+/**
+ * Create a Next.js App Router POST handler that validates and processes multipart uploads
+ * with the same rules and error codes as the browser:
+ *
+ *     // app/api/upload/route.ts
+ *     export const POST = createUploadRoute(rules, { onUpload: files => save(files) });
+ *
+ * Responds 200 when at least one file was accepted, 422 when every file was rejected,
+ * 400 for a malformed request and 413 when maxRequestSize is exceeded.
+ */
+export function createUploadRoute(
+    rules: RuleInfo[],
+    options: UploadRouteOptions = {}
+): (request: Request) => Promise<Response> {
+    const requestError = (errorCode: string, status: number, params?: Record<string, string | number>) =>
+        jsonResponse({
+            success: false,
+            files: [],
+            errors: [createFileError('', errorCode, params)]
+        }, status);
+
+    return async (request: Request) => {
+        const maxRequestSize = options.maxRequestSize;
+        const contentLength = Number(request.headers.get('content-length'));
+        if (maxRequestSize && contentLength > maxRequestSize) {
+            return requestError('request-too-large', 413, { maxSize: maxRequestSize });
+        }
+
+        let tooLarge = false;
+        let formData: FormData;
+        try {
+            formData = maxRequestSize && request.body
+                ? await new Response(limitRequestBody(request.body, maxRequestSize, () => { tooLarge = true; }), {
+                    headers: { 'Content-Type': request.headers.get('content-type') || '' }
+                }).formData()
+                : await request.formData();
+        } catch {
+            return tooLarge
+                ? requestError('request-too-large', 413, { maxSize: maxRequestSize! })
+                : requestError('invalid-form-data', 400);
+        }
+
+        const entries = options.fieldName
+            ? formData.getAll(options.fieldName)
+            : Array.from(formData.values());
+        // Plain text fields are not uploads
+        const files = entries.filter((entry): entry is File => typeof entry !== 'string');
+        if (files.length === 0) {
+            return requestError('no-files', 400);
+        }
+
+        const results = await MediaServerHelper.processFiles(files, {
+            rules,
+            concurrency: options.concurrency,
+            signal: request.signal
+        });
+
+        const accepted = results.filter((result): result is ProcessedFile => result.processType === 'processed');
+        const errors: FileError[] = results
+            .filter((result): result is UnProcessedFile => result.processType === 'unprocessed')
+            .map(result => result.reason);
+
+        let data: unknown;
+        if (accepted.length > 0 && options.onUpload) {
+            try {
+                data = await options.onUpload(accepted, request);
+            } catch (error) {
+                // Storage errors can name paths, buckets or credentials, the client only gets the generic message
+                options.onError?.(error, request);
+                return requestError('upload-failed', 500);
+            }
+        }
+
+        return jsonResponse({
+            success: errors.length === 0,
+            files: accepted.map(toRouteFile),
+            errors,
+            ...(data !== undefined && { data })
+        }, accepted.length > 0 ? 200 : 422);
+    };
+}
+
+// Export utilities
+export { buildSrcSet } from './src/utils/srcset.utils';
+
+// Export types
+export * from './src/types/common';
+export * from './src/types/image';
+export * from './src/types/video';
+export * from './src/types/audio';
+export * from './src/types/document';
+export * from './src/types/archive';
+export * from './src/types/upload';
+
+export default MediaServerHelper;
@@ -0,0 +1,388 @@
+import React, { useState, useCallback, useRef, useEffect } from 'react';
+import { SelectionOptions, ProcessedFile, UnProcessedFile, FileError } from '../types/common';
+import { ImageCropArea } from '../types/image';
+import { MediaHelperLocale } from '../types/i18n';
+import { DecodedImage, decodeImageFile, cropImage } from '../utils/image.utils';
+import { parseAspectRatio } from '../utils/validation.utils';
+import { LocaleName, resolveLocale } from '../utils/i18n.utils';
+
+export interface MediaCropperProps {
+    file: File | ProcessedFile; // A ProcessedFile is cropped from its originalFile
+    aspectRatio?: number | string; // e.g. 1, 16 / 9 or '4:5', free crop when omitted
+    cropShape?: 'rect' | 'round'; // Only changes the frame, the output is always rectangular
+    maxZoom?: number; // Default 4
+    height?: number; // Height of the crop area in pixels (default 320)
+    options?: SelectionOptions; // Rules the cropped image is processed with
+    onCrop?: (file: File) => void; // Receives the cropped image before processing
+    onCropped?: (result: ProcessedFile | UnProcessedFile) => void; // Receives the processed result
+    onCancel?: () => void;
+    onError?: (error: FileError) => void;
+    className?: string;
+    locale?: LocaleName | MediaHelperLocale; // Bundled 'en' / 'tr' or a custom bundle, texts override single entries
+    texts?: {
+        zoom?: string;
+        rotate?: string;
+        cancel?: string;
+        apply?: string;
+        processing?: string;
+        error?: string;
+    };
+}
+
+// Space kept around the frame so the dimmed overflow stays visible
+const FRAME_PADDING = 24;
+const MIN_FRAME_SIZE = 40;
+
+interface Size {
+    width: number;
+    height: number;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/**
+ * Largest rectangle with the given aspect ratio that fits the box
+ */
+function fitAspectRatio(ratio: number, box: Size): Size {
+    return box.width / box.height > ratio
+        ? { width: box.height * ratio, height: box.height }
+        : { width: box.width, height: box.width / ratio };
+}
+
+const buttonStyle: React.CSSProperties = {
+    padding: '6px 16px',
+    fontSize: '13px',
+    color: '#374151',
+    backgroundColor: '#ffffff',
+    border: '1px solid #d1d5db',
+    borderRadius: '6px',
+    cursor: 'pointer'
+};
+
+/**
+ * Crop, zoom and rotate an image before it goes through processImageFile.
+ * The image is dragged under a fixed frame, in free mode the frame can be resized from its corner.
+ */
+export const MediaCropper: React.FC<MediaCropperProps> = ({
+    file,
+    aspectRatio,
+    cropShape = 'rect',
+    maxZoom = 4,
+    height = 320,
+    options,
+    onCrop,
+    onCropped,
+    onCancel,
+    onError,
+    className = '',
+    locale,
+    texts
+}) => {
+    const sourceFile = file instanceof File ? file : file.originalFile;
+    const labels = { ...resolveLocale(locale).cropper, ...texts };
+
+    const [image, setImage] = useState<DecodedImage | null>(null);
+    const [loadFailed, setLoadFailed] = useState(false);
+    const [rotation, setRotation] = useState<ImageCropArea['rotation']>(0);
+    const [zoom, setZoom] = useState(1);
+    const [rawPan, setRawPan] = useState({ x: 0, y: 0 });
+    const [viewportWidth, setViewportWidth] = useState(0);
+    const [freeFrame, setFreeFrame] = useState<Size | null>(null);
+    const [isProcessing, setIsProcessing] = useState(false);
+
+    const viewportRef = useRef<HTMLDivElement>(null);
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const dragRef = useRef<{ x: number; y: number; pan: { x: number; y: number } } | null>(null);
+    const resizeRef = useRef<{ x: number; y: number; frame: Size } | null>(null);
+    const isMountedRef = useRef(true);
+    // Latest callback, an inline onError must not reload the image on every render
+    const onErrorRef = useRef(onError);
+    onErrorRef.current = onError;
+
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+        };
+    }, []);
+
+    // Decode upright (EXIF orientation, HEIC) the same way processImageFile does
+    useEffect(() => {
+        let cancelled = false;
+        setImage(null);
+        setLoadFailed(false);
+        setRotation(0);
+        setZoom(1);
+        setRawPan({ x: 0, y: 0 });
+        setFreeFrame(null);
+
+        decodeImageFile(sourceFile)
+            .then(decoded => {
+                if (!cancelled) setImage(decoded);
+            })
+            .catch((error) => {
+                if (cancelled) return;
+                setLoadFailed(true);
+                onErrorRef.current?.({
+                    fileName: sourceFile.name,
+                    errorCode: 'image-processing-error',
+                    message: error instanceof Error ? error.message : 'Failed to load image'
+                });
+            });
+
+        return () => {
+            cancelled = true;
+        };
+    }, [sourceFile]);
+
+    // Draw the decoded image once, zoom, pan and rotation are CSS transforms
+    useEffect(() => {
+        const canvas = canvasRef.current;
+        if (!image || !canvas) return;
+        canvas.width = image.width;
+        canvas.height = image.height;
+        canvas.getContext('2d')?.drawImage(image.source, 0, 0);
+    }, [image]);
+
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+
+        setViewportWidth(viewport.clientWidth);
+        if (typeof ResizeObserver === 'undefined') return;
+
+        const observer = new ResizeObserver(() => setViewportWidth(viewport.clientWidth));
+        observer.observe(viewport);
+        return () => observer.disconnect();
+    }, []);
+
+    // Wheel zoom needs a non-passive listener to keep the page from scrolling
+    useEffect(() => {
+        const viewport = viewportRef.current;
+        if (!viewport) return;
+
+        const handleWheel = (event: WheelEvent) => {
+            event.preventDefault();
+            setZoom(current => clamp(current * Math.exp(-event.deltaY * 0.002), 1, maxZoom));
+        };
+        viewport.addEventListener('wheel', handleWheel, { passive: false });
+        return () => viewport.removeEventListener('wheel', handleWheel);
+    }, [maxZoom]);
+
+    const available: Size = {
+        width: Math.max(MIN_FRAME_SIZE, viewportWidth - FRAME_PADDING * 2),
+        height: Math.max(MIN_FRAME_SIZE, height - FRAME_PADDING * 2)
+    };
+    const ratio = aspectRatio !== undefined ? parseAspectRatio(aspectRatio) : undefined;
+    const frame: Size = ratio
+        ? fitAspectRatio(ratio, available)
+        : {
+            width: Math.min(freeFrame?.width ?? available.width, available.width),
+            height: Math.min(freeFrame?.height ?? available.height, available.height)
+        };
+
+    const quarterTurn = rotation === 90 || rotation === 270;
+    const rotated: Size = image
+        ? { width: quarterTurn ? image.height : image.width, height: quarterTurn ? image.width : image.height }
+        : { width: 1, height: 1 };
+
+    // The image always covers the frame, zoom 1 is the smallest cover scale
+    const scale = Math.max(frame.width / rotated.width, frame.height / rotated.height) * zoom;
+
+    const clampPan = useCallback((pan: { x: number; y: number }) => {
+        const maxX = Math.max(0, (rotated.width * scale - frame.width) / 2);
+        const maxY = Math.max(0, (rotated.height * scale - frame.height) / 2);
+        return { x: clamp(pan.x, -maxX, maxX), y: clamp(pan.y, -maxY, maxY) };
+    }, [rotated.width, rotated.height, scale, frame.width, frame.height]);
+
+    const pan = clampPan(rawPan);
+
+    const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+        if (!image || isProcessing) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        dragRef.current = { x: event.clientX, y: event.clientY, pan };
+    };
+
+    const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+        const resize = resizeRef.current;
+        if (resize) {
+            // The frame stays centered, so it grows on both sides
+            setFreeFrame({
+                width: clamp(resize.frame.width + (event.clientX - resize.x) * 2, MIN_FRAME_SIZE, available.width),
+                height: clamp(resize.frame.height + (event.clientY - resize.y) * 2, MIN_FRAME_SIZE, available.height)
+            });
+            return;
+        }
+
+        const drag = dragRef.current;
+        if (!drag) return;
+        setRawPan(clampPan({
+            x: drag.pan.x + event.clientX - drag.x,
+            y: drag.pan.y + event.clientY - drag.y
+        }));
+    };
+
+    const handlePointerUp = () => {
+        dragRef.current = null;
+        resizeRef.current = null;
+    };
+
+    const handleResizeStart = (event: React.PointerEvent<HTMLDivElement>) => {
+        event.stopPropagation();
+        viewportRef.current?.setPointerCapture(event.pointerId);
+        resizeRef.current = { x: event.clientX, y: event.clientY, frame };
+    };
+
+    const handleRotate = () => {
+        setRotation(current => ((current + 90) % 360) as ImageCropArea['rotation']);
+        setRawPan({ x: 0, y: 0 });
+    };
+
+    const handleApply = async () => {
+        if (!image) return;
+
+        // Frame position in the rotated image's pixels
+        const width = Math.min(rotated.width, frame.width / scale);
+        const cropHeight = Math.min(rotated.height, frame.height / scale);
+        const area: ImageCropArea = {
+            x: clamp(rotated.width / 2 - (pan.x + frame.width / 2) / scale, 0, rotated.width - width),
+            y: clamp(rotated.height / 2 - (pan.y + frame.height / 2) / scale, 0, rotated.height - cropHeight),
+            width,
+            height: cropHeight,
+            rotation
+        };
+
+        setIsProcessing(true);
+        try {
+            const cropped = await cropImage(image, area, sourceFile);
+            onCrop?.(cropped);
+
+            if (onCropped) {
+                // Import MediaHelper dynamically to avoid circular dependency
+                const { default: MediaHelper } = await import('../../index');
+                const [result] = await MediaHelper.processFilesDirectly([cropped], options);
+                if (result) onCropped(result);
+            }
+        } catch (error) {
+            onError?.({
+                fileName: sourceFile.name,
+                errorCode: 'image-processing-error',
+                message: error instanceof Error ? error.message : 'Failed to crop image'
+            });
+        } finally {
+            if (isMountedRef.current) setIsProcessing(false);
+        }
+    };
+
+    return (
+        <div className={className || undefined} style={className ? undefined : { display: 'flex', flexDirection: 'column', gap: '12px' }}>
+            <div
+                ref={viewportRef}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                style={{
+                    position: 'relative',
+                    height: `${height}px`,
+                    overflow: 'hidden',
+                    backgroundColor: '#111827',
+                    borderRadius: '8px',
+                    touchAction: 'none',
+                    userSelect: 'none',
+                    cursor: image ? 'grab' : 'default'
+                }}
+            >
+                <canvas
+                    ref={canvasRef}
+                    style={{
+                        position: 'absolute',
+                        left: '50%',
+                        top: '50%',
+                        width: image ? `${image.width * scale}px` : 0,
+                        height: image ? `${image.height * scale}px` : 0,
+                        transform: `translate(-50%, -50%) translate(${pan.x}px, ${pan.y}px) rotate(${rotation}deg)`,
+                        pointerEvents: 'none'
+                    }}
+                />
+
+                {image && viewportWidth > 0 && (
+                    <div style={{
+                        position: 'absolute',
+                        left: `${(viewportWidth - frame.width) / 2}px`,
+                        top: `${(height - frame.height) / 2}px`,
+                        width: `${frame.width}px`,
+                        height: `${frame.height}px`,
+                        border: '1px solid rgba(255, 255, 255, 0.9)',
+                        borderRadius: cropShape === 'round' ? '50%' : 0,
+                        boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)',
+                        pointerEvents: 'none'
+                    }}>
+                        {ratio === undefined && (
+                            <div
+                                onPointerDown={handleResizeStart}
+                                style={{
+                                    position: 'absolute',
+                                    right: '-7px',
+                                    bottom: '-7px',
+                                    width: '14px',
+                                    height: '14px',
+                                    backgroundColor: '#ffffff',
+                                    borderRadius: '2px',
+                                    cursor: 'nwse-resize',
+                                    pointerEvents: 'auto'
+                                }}
+                            />
+                        )}
+                    </div>
+                )}
+
+                {loadFailed && (
+                    <div style={{
+                        position: 'absolute',
+                        inset: 0,
+                        display: 'flex',
+                        alignItems: 'center',
+                        justifyContent: 'center',
+                        color: '#f9fafb',
+                        fontSize: '14px'
+                    }}>
+                        {labels.error}
+                    </div>
+                )}
+            </div>
+
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', flexWrap: 'wrap' }}>
+                <label style={{ display: 'flex', alignItems: 'center', gap: '8px', flex: 1, fontSize: '13px', color: '#374151' }}>
+                    {labels.zoom}
+                    <input
+                        type="range"
+                        min={1}
+                        max={maxZoom}
+                        step={0.01}
+                        value={zoom}
+                        disabled={!image || isProcessing}
+                        onChange={(event) => setZoom(Number(event.target.value))}
+                        style={{ flex: 1 }}
+                    />
+                </label>
+                <button type="button" onClick={handleRotate} disabled={!image || isProcessing} style={buttonStyle}>
+                    {labels.rotate}
+                </button>
+                {onCancel && (
+                    <button type="button" onClick={onCancel} disabled={isProcessing} style={buttonStyle}>
+                        {labels.cancel}
+                    </button>
+                )}
+                <button
+                    type="button"
+                    onClick={handleApply}
+                    disabled={!image || isProcessing}
+                    style={{ ...buttonStyle, color: '#ffffff', backgroundColor: '#3b82f6', borderColor: '#3b82f6' }}
+                >
+                    {isProcessing ? labels.processing : labels.apply}
+                </button>
+            </div>
+        </div>
+    );
+};
@@ -1,6 +1,11 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { useDropzone, DropzoneOptions, FileRejection } from 'react-dropzone';
-import { SelectionOptions, ProcessedFile, UnProcessedFile, ProgressInfo, FileError } from '../types/common';
+import { SelectionOptions, ProcessedFile, UnProcessedFile, ProgressInfo, FileError, RuleInfo } from '../types/common';
+import { MediaHelperLocale } from '../types/i18n';
+import { detectFileType, getSelectionLimits } from '../utils/validation.utils';
+import { createFileError, formatFileError, formatMessage, LocaleName, resolveLocale } from '../utils/i18n.utils';
+import { getClipboardFiles } from '../utils/capture.utils';
+import { MediaCropper, MediaCropperProps } from './MediaCropper';
 
 export interface MediaDropzoneProps {
     options?: SelectionOptions;
@@ -21,17 +26,86 @@ export interface MediaDropzoneProps {
         processing?: string;
         error?: string;
         subDesc?: string;
+        pasteHint?: string;
+        cancel?: string;
+        eta?: string; // e.g. '{seconds}s left'
         stages?: {
             validating?: string;
             compressing?: string;
             'generating-thumbnail'?: string;
             processing?: string;
+            uploading?: string;
             completed?: string;
+            error?: string;
         };
     };
     icon?: React.ReactNode;
+    locale?: LocaleName | MediaHelperLocale; // Bundled 'en' / 'tr' or a custom bundle, texts override single entries
+    enablePaste?: boolean; // Process files pasted anywhere on the page (Ctrl+V), except into text fields
+    capture?: SelectionOptions['capture']; // Open the camera/microphone on mobile instead of the file picker, defaults to options.capture
+    cropImages?: boolean | Pick<MediaCropperProps, 'aspectRatio' | 'cropShape' | 'maxZoom' | 'height' | 'className' | 'texts'>; // Open MediaCropper for each dropped image before processing
 }
 
+// Animated and vector images would lose what makes them special on a canvas
+const NON_CROPPABLE_TYPES = ['image/gif', 'image/svg+xml'];
+
+function isCroppableImage(file: File): boolean {
+    return detectFileType(file) === 'image' && !NON_CROPPABLE_TYPES.includes(file.type);
+}
+
+/**
+ * FileError for a react-dropzone rejection, with the params validateFile would have set
+ */
+function getRejectionError(
+    file: File,
+    error: FileRejection['errors'][number],
+    rules?: RuleInfo[],
+    dropzoneOptions?: DropzoneOptions
+): FileError {
+    const sizes = (key: 'minFileSize' | 'maxFileSize') => (rules || [])
+        .map(rule => rule[key])
+        .filter((size): size is number => size !== undefined);
+
+    switch (error.code) {
+        case 'file-invalid-type':
+            return createFileError(file.name, error.code, { type: file.type });
+        case 'file-too-large': {
+            // Most restrictive size of all rules, like the accept options below
+            const maxSize = dropzoneOptions?.maxSize ?? Math.min(...sizes('maxFileSize'));
+            if (isFinite(maxSize)) return createFileError(file.name, error.code, { size: file.size, maxSize });
+            break;
+        }
+        case 'file-too-small': {
+            const minSize = dropzoneOptions?.minSize ?? Math.max(...sizes('minFileSize'));
+            if (isFinite(minSize)) return createFileError(file.name, error.code, { size: file.size, minSize });
+            break;
+        }
+        case 'too-many-files': {
+            const max = dropzoneOptions?.maxFiles ?? getSelectionLimits(rules).max;
+            if (max) return createFileError(file.name, error.code, { max });
+            break;
+        }
+    }
+
+    return { fileName: file.name, errorCode: error.code, message: error.message };
+}
+
+// Hidden from sight but still read by screen readers
+const visuallyHiddenStyle: React.CSSProperties = {
+    position: 'absolute',
+    width: '1px',
+    height: '1px',
+    padding: 0,
+    margin: '-1px',
+    overflow: 'hidden',
+    clip: 'rect(0, 0, 0, 0)',
+    whiteSpace: 'nowrap',
+    border: 0
+};
+
+// Progress is announced in steps, not on every update
+const ANNOUNCE_STEP = 25;
+
 export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
     options,
     onFilesProcessed,
@@ -45,29 +119,69 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
     disabledClassName = '',
     children,
     disabled = false,
-    texts = {
-        dragActive: 'Drop the files here...',
-        dragInactive: 'Drag & drop files here, or click to select files',
-        processing: 'Processing...',
-        error: 'Error occurred',
-        subDesc: '',
-        stages: {
-            validating: 'Validating',
-            compressing: 'Compressing',
-            'generating-thumbnail': 'Generating thumbnail',
-            processing: 'Processing',
-            completed: 'Completed'
-        }
-    },
-    icon
+    texts,
+    icon,
+    locale,
+    enablePaste = false,
+    capture,
+    cropImages = false
 }) => {
+    const bundle = resolveLocale(locale);
+    const labels = {
+        ...bundle.dropzone,
+        ...texts,
+        stages: { ...bundle.dropzone.stages, ...texts?.stages }
+    };
+
     const [isProcessing, setIsProcessing] = useState(false);
+    // Dropped files waiting for their images to be cropped, queue holds the indexes still to crop
+    const [cropSession, setCropSession] = useState<{ files: (File | null)[]; queue: number[] } | null>(null);
     const [progressInfo, setProgressInfo] = useState<ProgressInfo | null>(null);
+    // Latest progress of each file, in the order they started
+    const [fileProgressList, setFileProgressList] = useState<ProgressInfo[]>([]);
+    // Screen reader announcements, errors go to an assertive region
+    const [announcement, setAnnouncement] = useState('');
+    const [errorAnnouncement, setErrorAnnouncement] = useState('');
+    const abortControllerRef = useRef<AbortController | null>(null);
+    const cancelButtonRef = useRef<HTMLButtonElement>(null);
+    const restoreFocusRef = useRef(false);
+    const isMountedRef = useRef(true);
+
+    // Stop processing when the dropzone unmounts (e.g. the user navigates away)
+    useEffect(() => {
+        isMountedRef.current = true;
+        return () => {
+            isMountedRef.current = false;
+            abortControllerRef.current?.abort();
+        };
+    }, []);
+
+    const reportErrors = useCallback((errors: FileError[]) => {
+        setErrorAnnouncement(errors
+            .map(error => formatMessage(bundle.announcements.error, {
+                fileName: error.fileName,
+                message: formatFileError(error, bundle)
+            }, bundle.code))
+            .join('. '));
+        onError?.(errors);
+    }, [bundle, onError]);
 
     const processFiles = useCallback(async (files: File[]) => {
         if (!files || files.length === 0) return;
 
+        const controller = new AbortController();
+        abortControllerRef.current = controller;
+
+        // The caller's own signal cancels as well
+        const externalSignal = options?.signal;
+        const forwardAbort = () => controller.abort();
+        if (externalSignal?.aborted) controller.abort();
+        externalSignal?.addEventListener('abort', forwardAbort, { once: true });
+
         setIsProcessing(true);
+        setErrorAnnouncement('');
+        setAnnouncement(formatMessage(bundle.announcements.started, { count: files.length }, bundle.code));
+        let announcedStep = 0;
         try {
             // Import MediaHelper dynamically to avoid circular dependency
             const { default: MediaHelper } = await import('../../index');
@@ -75,22 +189,43 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
             // Create options with progress callback
             const processOptions: SelectionOptions = {
                 ...options,
+                signal: controller.signal,
                 onProgress: (progress) => {
                     setProgressInfo(progress);
+                    const step = Math.floor(progress.percentage / ANNOUNCE_STEP);
+                    if (step > announcedStep && progress.percentage < 100) {
+                        announcedStep = step;
+                        setAnnouncement(formatMessage(bundle.announcements.progress, { percentage: step * ANNOUNCE_STEP }, bundle.code));
+                    }
+                    setFileProgressList(current => {
+                        const index = current.findIndex(item => item.fileId === progress.fileId);
+                        if (index === -1) return [...current, progress];
+                        const next = [...current];
+                        next[index] = progress;
+                        return next;
+                    });
                     onProgress?.(progress);
                 }
             };
 
             // Process files using MediaHelper
             const processedFiles = await MediaHelper.processFilesDirectly(files, processOptions);
+            if (!isMountedRef.current) return;
 
-            // Separate processed and unprocessed files for error reporting
-            const unprocessedFiles = processedFiles.filter(f => f.processType === 'unprocessed') as UnProcessedFile[];
-            if (unprocessedFiles.length > 0 && onError) {
-                const errors = unprocessedFiles.map(f => f.reason);
-                onError(errors);
+            // Separate processed and unprocessed files for error reporting, cancelled files are not errors
+            const unprocessedFiles = (processedFiles.filter(f => f.processType === 'unprocessed') as UnProcessedFile[])
+                .filter(f => f.reason.errorCode !== 'aborted');
+            if (unprocessedFiles.length > 0) {
+                reportErrors(unprocessedFiles.map(f => f.reason));
             }
 
+            setAnnouncement(controller.signal.aborted
+                ? bundle.announcements.cancelled
+                : formatMessage(bundle.announcements.completed, {
+                    processed: processedFiles.filter(f => f.processType === 'processed').length,
+                    total: files.length
+                }, bundle.code));
+
             onFilesProcessed(processedFiles);
         } catch (error) {
             console.error('Error processing files:', error);
@@ -100,33 +235,90 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
                 errorCode: 'PROCESSING_ERROR',
                 message: errorMessage
             }));
-            onError?.(fileErrors);
+            reportErrors(fileErrors);
         } finally {
-            setIsProcessing(false);
-            setProgressInfo(null);
+            externalSignal?.removeEventListener('abort', forwardAbort);
+            if (abortControllerRef.current === controller) {
+                abortControllerRef.current = null;
+            }
+            if (isMountedRef.current) {
+                // Focus was on the cancel button, hand it back to the dropzone once it's gone
+                restoreFocusRef.current = !!cancelButtonRef.current && cancelButtonRef.current === document.activeElement;
+                setIsProcessing(false);
+                setProgressInfo(null);
+                setFileProgressList([]);
+            }
+        }
+    }, [options, onFilesProcessed, onProgress, reportErrors, bundle]);
+
+    // Crop images first when enabled, the rest of the selection waits for them
+    const startProcessing = useCallback((files: File[]) => {
+        const queue = cropImages
+            ? files.map((file, index) => isCroppableImage(file) ? index : -1).filter(index => index >= 0)
+            : [];
+
+        if (queue.length > 0) {
+            setCropSession({ files, queue });
+            return;
         }
-    }, [options, onFilesProcessed, onError, onProgress]);
+        processFiles(files);
+    }, [cropImages, processFiles]);
+
+    /**
+     * Replace the current image with its crop (or drop it when cancelled) and move on
+     */
+    const finishCrop = (replacement: File | null) => {
+        if (!cropSession) return;
+
+        const files = [...cropSession.files];
+        files[cropSession.queue[0]] = replacement;
+        const queue = cropSession.queue.slice(1);
+
+        if (queue.length > 0) {
+            setCropSession({ files, queue });
+            return;
+        }
+
+        setCropSession(null);
+        processFiles(files.filter((file): file is File => file !== null));
+    };
+
+    // Pasted files go through the same path as dropped ones
+    useEffect(() => {
+        if (!enablePaste || disabled || isProcessing || cropSession) return;
+
+        const handlePaste = (event: ClipboardEvent) => {
+            // Text fields paste as usual
+            const target = event.target instanceof Element ? event.target : null;
+            if (target?.closest('input, textarea, [contenteditable]:not([contenteditable="false"])')) return;
+
+            const files = getClipboardFiles(event);
+            if (files.length === 0) return;
+
+            event.preventDefault();
+            startProcessing(files);
+        };
+
+        document.addEventListener('paste', handlePaste);
+        return () => document.removeEventListener('paste', handlePaste);
+    }, [enablePaste, disabled, isProcessing, cropSession, startProcessing]);
 
     const onDrop = useCallback((acceptedFiles: File[], fileRejections: FileRejection[]) => {
         if (fileRejections.length > 0) {
             const errors: FileError[] = fileRejections.flatMap(rejection =>
-                rejection.errors.map(error => ({
-                    fileName: rejection.file.name,
-                    errorCode: error.code,
-                    message: error.message
-                }))
+                rejection.errors.map(error => getRejectionError(rejection.file, error, options?.rules, dropzoneOptions))
             );
-            onError?.(errors);
-            
+            reportErrors(errors);
+
             // Still process accepted files if any
             if (acceptedFiles.length > 0) {
-                processFiles(acceptedFiles);
+                startProcessing(acceptedFiles);
             }
             return;
         }
 
-        processFiles(acceptedFiles);
-    }, [processFiles, onError]);
+        startProcessing(acceptedFiles);
+    }, [startProcessing, reportErrors, options?.rules, dropzoneOptions]);
 
     // Create dropzone options based on rules
     const computedDropzoneOptions = useMemo(() => {
@@ -141,7 +333,6 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
             const accept: Record<string, string[]> = {};
             let minSize: number | undefined;
             let maxSize: number | undefined;
-            let maxFiles: number | undefined;
 
             // Process all rules
             options.rules.forEach(rule => {
@@ -176,11 +367,6 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
                 if (rule.maxFileSize !== undefined) {
                     maxSize = maxSize === undefined ? rule.maxFileSize : Math.min(maxSize, rule.maxFileSize);
                 }
-
-                // Handle file count (use most restrictive)
-                if (rule.maxSelectionCount !== undefined) {
-                    maxFiles = maxFiles === undefined ? rule.maxSelectionCount : Math.min(maxFiles, rule.maxSelectionCount);
-                }
             });
 
             // Apply computed options
@@ -193,6 +379,9 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
             if (maxSize !== undefined) {
                 opts.maxSize = maxSize;
             }
+
+            // Same file count limit as MediaHelper and the upload route
+            const { max: maxFiles } = getSelectionLimits(options.rules);
             if (maxFiles !== undefined) {
                 opts.maxFiles = maxFiles;
             }
@@ -208,11 +397,26 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
     const {
         getRootProps,
         getInputProps,
+        rootRef,
         isDragActive,
         isDragAccept,
         isDragReject
     } = useDropzone(computedDropzoneOptions);
 
+    // The root loses its tabIndex while processing, keep keyboard focus on the cancel button meanwhile
+    useEffect(() => {
+        if (isProcessing) {
+            if (rootRef.current?.contains(document.activeElement)) {
+                cancelButtonRef.current?.focus();
+            }
+        } else if (restoreFocusRef.current) {
+            restoreFocusRef.current = false;
+            rootRef.current?.focus();
+        }
+    }, [isProcessing, rootRef]);
+
+    const inputCapture = capture ?? options?.capture;
+
     const rootClassName = [
         className,
         isDragActive && activeClassName,
@@ -221,118 +425,220 @@ export const MediaDropzone: React.FC<MediaDropzoneProps> = ({
         (disabled || isProcessing) && disabledClassName
     ].filter(Boolean).join(' ');
 
+    const handleCancel = (event: React.MouseEvent<HTMLButtonElement>) => {
+        // Don't let the click reach the dropzone root
+        event.stopPropagation();
+        abortControllerRef.current?.abort();
+    };
+
+    // Escape cancels from anywhere inside the progress view
+    const handleProgressKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+        if (event.key === 'Escape') {
+            event.stopPropagation();
+            abortControllerRef.current?.abort();
+        }
+    };
+
     // Get stage text
     const getStageText = (stage: ProgressInfo['stage']) => {
-        return texts.stages?.[stage] || stage;
+        return labels.stages[stage] || stage;
     };
 
-    return (
-        <div {...getRootProps({ className: rootClassName })}>
-            <input {...getInputProps()} />
-
-            {isProcessing ? (
-                <div style={{
-                    display: 'flex',
-                    flexDirection: 'column',
-                    alignItems: 'center',
-                    gap: '12px',
-                    padding: '20px'
-                }}>
-                    <div style={{
-                        fontSize: '14px',
-                        color: '#666',
-                        textAlign: 'center'
-                    }}>
-                        {texts.processing || 'Processing...'}
-                        {progressInfo && (
-                            <>
-                                <span style={{ marginLeft: '8px', fontWeight: 'bold' }}>
-                                    {progressInfo.currentFile}/{progressInfo.totalFiles}
-                                </span>
-                                <div style={{ 
-                                    fontSize: '12px', 
-                                    marginTop: '4px',
-                                    color: '#999'
-                                }}>
-                                    {getStageText(progressInfo.stage)}
-                                </div>
-                            </>
-                        )}
-                    </div>
+    const liveRegions = (
+        <>
+            <div role="status" aria-live="polite" aria-atomic="true" style={visuallyHiddenStyle}>
+                {announcement}
+            </div>
+            <div role="alert" aria-live="assertive" aria-atomic="true" style={visuallyHiddenStyle}>
+                {errorAnnouncement}
+            </div>
+        </>
+    );
 
-                    <div style={{
-                        width: '100%',
-                        maxWidth: '300px',
-                        height: '4px',
-                        backgroundColor: '#e5e7eb',
-                        borderRadius: '9999px',
-                        overflow: 'hidden'
-                    }}>
-                        <div
-                            style={{
-                                width: `${progressInfo?.percentage || 0}%`,
-                                height: '100%',
-                                backgroundColor: '#3b82f6',
-                                borderRadius: '9999px',
-                                transition: 'width 0.3s ease'
-                            }}
-                        />
-                    </div>
+    // The cropper replaces the dropzone, clicks inside it must not open the file dialog
+    if (cropSession) {
+        const cropperProps = typeof cropImages === 'object' ? cropImages : {};
+        const index = cropSession.queue[0];
+        return (
+            <>
+                <MediaCropper
+                    key={index}
+                    locale={bundle}
+                    {...cropperProps}
+                    file={cropSession.files[index]!}
+                    onCrop={(file) => finishCrop(file)}
+                    onCancel={() => finishCrop(null)}
+                    onError={(error) => reportErrors([error])}
+                />
+                {liveRegions}
+            </>
+        );
+    }
 
-                    {progressInfo && (
-                        <div style={{
-                            fontSize: '12px',
-                            color: '#999',
-                            textAlign: 'center',
-                            wordBreak: 'break-word',
-                            maxWidth: '300px'
-                        }}>
-                            {progressInfo.fileName}
-                        </div>
-                    )}
-                </div>
-            ) : (
-                children || (
-                    <div className="dropzone-content" style={{
+    return (
+        <>
+            <div {...getRootProps({
+                className: rootClassName,
+                // A custom children may hold its own controls, a button role must not wrap them
+                role: !children && !isProcessing ? 'button' : undefined,
+                'aria-disabled': disabled || undefined,
+                'aria-busy': isProcessing || undefined
+            })}>
+                <input {...getInputProps(inputCapture ? { capture: inputCapture } : undefined)} />
+
+                {isProcessing ? (
+                    <div onKeyDown={handleProgressKeyDown} style={{
                         display: 'flex',
                         flexDirection: 'column',
                         alignItems: 'center',
                         gap: '12px',
-                        padding: '40px 20px',
-                        textAlign: 'center'
+                        padding: '20px'
                     }}>
-                        {icon && (
-                            <div style={{
-                                fontSize: '48px',
-                                color: '#9ca3af',
-                                marginBottom: '8px'
-                            }}>
-                                {icon}
-                            </div>
-                        )}
+                        <div style={{
+                            fontSize: '14px',
+                            color: '#666',
+                            textAlign: 'center'
+                        }}>
+                            {labels.processing}
+                            {progressInfo && (
+                                <span style={{ marginLeft: '8px', fontWeight: 'bold' }}>
+                                    {progressInfo.percentage}%
+                                </span>
+                            )}
+                        </div>
 
-                        <p style={{
+                        {/* One row per file, files processed in parallel move at the same time */}
+                        <ul style={{
+                            listStyle: 'none',
                             margin: 0,
-                            fontSize: '16px',
-                            color: '#374151',
-                            fontWeight: 500
+                            padding: 0,
+                            width: '100%',
+                            maxWidth: '360px',
+                            maxHeight: '240px',
+                            overflowY: 'auto',
+                            display: 'flex',
+                            flexDirection: 'column',
+                            gap: '8px'
+                        }}>
+                            {fileProgressList.map(progress => (
+                                <li key={progress.fileId}>
+                                    <div style={{
+                                        display: 'flex',
+                                        justifyContent: 'space-between',
+                                        gap: '8px',
+                                        fontSize: '12px',
+                                        color: progress.stage === 'error' ? '#b91c1c' : '#6b7280'
+                                    }}>
+                                        <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                                            {progress.fileName}
+                                        </span>
+                                        <span style={{ flexShrink: 0 }}>
+                                            {getStageText(progress.stage)}
+                                            {progress.eta !== undefined && progress.eta > 0 &&
+                                                ` · ${formatMessage(labels.eta, { seconds: Math.ceil(progress.eta / 1000) }, bundle.code)}`}
+                                        </span>
+                                    </div>
+                                    <div
+                                        role="progressbar"
+                                        aria-label={progress.fileName}
+                                        aria-valuemin={0}
+                                        aria-valuemax={100}
+                                        aria-valuenow={progress.fileProgress ?? 0}
+                                        aria-valuetext={`${progress.fileProgress ?? 0}% · ${getStageText(progress.stage)}`}
+                                        style={{
+                                            marginTop: '4px',
+                                            height: '4px',
+                                            backgroundColor: '#e5e7eb',
+                                            borderRadius: '9999px',
+                                            overflow: 'hidden'
+                                        }}
+                                    >
+                                        <div
+                                            style={{
+                                                width: `${progress.fileProgress ?? 0}%`,
+                                                height: '100%',
+                                                backgroundColor: progress.stage === 'error' ? '#ef4444' : '#3b82f6',
+                                                borderRadius: '9999px',
+                                                transition: 'width 0.3s ease'
+                                            }}
+                                        />
+                                    </div>
+                                </li>
+                            ))}
+                        </ul>
+
+                        <button
+                            ref={cancelButtonRef}
+                            type="button"
+                            onClick={handleCancel}
+                            aria-keyshortcuts="Escape"
+                            style={{
+                                padding: '6px 16px',
+                                fontSize: '13px',
+                                color: '#374151',
+                                backgroundColor: '#ffffff',
+                                border: '1px solid #d1d5db',
+                                borderRadius: '6px',
+                                cursor: 'pointer'
+                            }}
+                        >
+                            {labels.cancel}
+                        </button>
+                    </div>
+                ) : (
+                    children || (
+                        <div className="dropzone-content" style={{
+                            display: 'flex',
+                            flexDirection: 'column',
+                            alignItems: 'center',
+                            gap: '12px',
+                            padding: '40px 20px',
+                            textAlign: 'center'
                         }}>
-                            {isDragActive ? texts.dragActive : texts.dragInactive}
-                        </p>
+                            {icon && (
+                                <div style={{
+                                    fontSize: '48px',
+                                    color: '#9ca3af',
+                                    marginBottom: '8px'
+                                }}>
+                                    {icon}
+                                </div>
+                            )}
 
-                        {texts.subDesc && (
                             <p style={{
                                 margin: 0,
-                                fontSize: '14px',
-                                color: '#6b7280',
-                                maxWidth: '400px'
+                                fontSize: '16px',
+                                color: '#374151',
+                                fontWeight: 500
                             }}>
-                                {texts.subDesc}
+                                {isDragActive ? labels.dragActive : labels.dragInactive}
                             </p>
-                        )}
-                    </div>
-                )
-            )}
-        </div>
+
+                            {labels.subDesc && (
+                                <p style={{
+                                    margin: 0,
+                                    fontSize: '14px',
+                                    color: '#6b7280',
+                                    maxWidth: '400px'
+                                }}>
+                                    {labels.subDesc}
+                                </p>
+                            )}
+
+                            {enablePaste && labels.pasteHint && (
+                                <p style={{
+                                    margin: 0,
+                                    fontSize: '13px',
+                                    color: '#9ca3af'
+                                }}>
+                                    {labels.pasteHint}
+                                </p>
+                            )}
+                        </div>
+                    )
+                )}
+            </div>
+            {liveRegions}
+        </>
     );
 };
\ No newline at end of file
@@ -0,0 +1,50 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { ProcessedFile } from '../types/common';
+import { MediaPreviewItemHelpers, MediaPreviewList } from './MediaPreviewList';
+
+function createFile(name: string): ProcessedFile {
+    const file = new File(['x'], name, { type: 'image/jpeg' });
+    const meta = { name, size: 1, type: 'image', extension: '.jpg', mimeType: 'image/jpeg' };
+    return { processType: 'processed', meta, originalFile: file, processed: { ...meta, file } };
+}
+
+/**
+ * Render the list and return the remove helper of every item
+ */
+function renderRemoveHelpers(primaryIndex: number, onPrimaryChange: (index: number) => void) {
+    const helpers: MediaPreviewItemHelpers[] = [];
+    renderToStaticMarkup(
+        <MediaPreviewList
+            files={['a.jpg', 'b.jpg', 'c.jpg', 'd.jpg'].map(createFile)}
+            onRemove={() => undefined}
+            primaryIndex={primaryIndex}
+            onPrimaryChange={onPrimaryChange}
+            renderItem={(_file, itemHelpers) => {
+                helpers.push(itemHelpers);
+                return null;
+            }}
+        />
+    );
+    return helpers.map(item => item.remove!);
+}
+
+describe('MediaPreviewList remove', () => {
+    it('moves the primary marker up when an earlier item is removed', () => {
+        const onPrimaryChange = jest.fn<(index: number) => void>();
+        renderRemoveHelpers(2, onPrimaryChange)[0]();
+        expect(onPrimaryChange).toHaveBeenCalledWith(1);
+    });
+
+    it('keeps the primary marker when a later item is removed', () => {
+        const onPrimaryChange = jest.fn<(index: number) => void>();
+        renderRemoveHelpers(2, onPrimaryChange)[3]();
+        expect(onPrimaryChange).not.toHaveBeenCalled();
+    });
+
+    it('passes the primary marker to the first item when the primary is removed', () => {
+        const onPrimaryChange = jest.fn<(index: number) => void>();
+        renderRemoveHelpers(2, onPrimaryChange)[2]();
+        expect(onPrimaryChange).toHaveBeenCalledWith(0);
+    });
+});
@@ -0,0 +1,287 @@
+import React, { useState } from 'react';
+import { ProcessedFile, UnProcessedFile } from '../types/common';
+import { MediaHelperLocale } from '../types/i18n';
+import { formatBytes, formatFileError, LocaleName, resolveLocale } from '../utils/i18n.utils';
+
+type PreviewFile = ProcessedFile | UnProcessedFile;
+
+/**
+ * Helpers passed to renderItem for building a fully custom item
+ */
+export interface MediaPreviewItemHelpers {
+    index: number;
+    isPrimary: boolean;
+    isDragging: boolean;
+    isDragOver: boolean;
+    remove?: () => void;
+    setPrimary?: () => void;
+    preview: React.ReactNode; // The default preview, to reuse inside a custom item
+}
+
+export interface MediaPreviewListProps<T extends PreviewFile = PreviewFile> {
+    files: T[];
+    onRemove?: (file: T, index: number) => void;
+    onReorder?: (fromIndex: number, toIndex: number) => void;
+    primaryIndex?: number; // Marks one item as primary (e.g. the cover photo)
+    onPrimaryChange?: (index: number) => void;
+    getKey?: (file: T, index: number) => string; // Defaults to file.id (useMediaHelper) or the index
+    className?: string;
+    itemClassName?: string;
+    errorItemClassName?: string;
+    primaryItemClassName?: string;
+    draggingClassName?: string;
+    dragOverClassName?: string;
+    renderPreview?: (file: ProcessedFile, index: number) => React.ReactNode;
+    renderError?: (file: UnProcessedFile, index: number) => React.ReactNode;
+    renderItem?: (file: T, helpers: MediaPreviewItemHelpers) => React.ReactNode;
+    locale?: LocaleName | MediaHelperLocale; // Language of the texts, error messages and sizes
+    texts?: {
+        remove?: string;
+        primary?: string;
+        makePrimary?: string;
+    };
+}
+
+const previewBoxStyle: React.CSSProperties = {
+    width: '100%',
+    aspectRatio: '1 / 1',
+    borderRadius: '6px',
+    overflow: 'hidden',
+    backgroundColor: '#f3f4f6',
+    display: 'flex',
+    alignItems: 'center',
+    justifyContent: 'center'
+};
+
+const mediaStyle: React.CSSProperties = {
+    width: '100%',
+    height: '100%',
+    objectFit: 'cover'
+};
+
+const smallButtonStyle: React.CSSProperties = {
+    padding: '2px 8px',
+    fontSize: '12px',
+    color: '#374151',
+    backgroundColor: '#ffffff',
+    border: '1px solid #d1d5db',
+    borderRadius: '4px',
+    cursor: 'pointer'
+};
+
+/**
+ * Position of the item at `index` after the item at fromIndex moved to toIndex
+ */
+function getMovedIndex(index: number, fromIndex: number, toIndex: number): number {
+    if (index === fromIndex) return toIndex;
+    if (fromIndex < index && index <= toIndex) return index - 1;
+    if (toIndex <= index && index < fromIndex) return index + 1;
+    return index;
+}
+
+/**
+ * Default preview for a processed file, by file type
+ */
+function DefaultPreview({ file, localeCode }: { file: ProcessedFile; localeCode: string }) {
+    const { processed, thumbnail, meta } = file;
+    const url = processed.url;
+
+    if (meta.type === 'image' && (thumbnail?.url || url)) {
+        return <img src={thumbnail?.url || url} alt={meta.name} style={mediaStyle} />;
+    }
+
+    if (meta.type === 'video') {
+        if (thumbnail?.url) {
+            return <img src={thumbnail.url} alt={meta.name} style={mediaStyle} />;
+        }
+        if (url) {
+            return <video src={url} muted playsInline preload="metadata" style={mediaStyle} />;
+        }
+    }
+
+    if (meta.type === 'audio' && url) {
+        return <audio src={url} controls preload="none" style={{ width: '90%' }} />;
+    }
+
+    // Documents, archives and anything without a playable url
+    if (thumbnail?.url) {
+        return <img src={thumbnail.url} alt={meta.name} style={mediaStyle} />;
+    }
+    return (
+        <div style={{ textAlign: 'center', color: '#6b7280' }}>
+            <div style={{ fontSize: '18px', fontWeight: 600, textTransform: 'uppercase' }}>
+                {processed.extension.replace('.', '') || meta.type}
+            </div>
+            <div style={{ fontSize: '12px', marginTop: '4px' }}>{formatBytes(processed.size, localeCode)}</div>
+        </div>
+    );
+}
+
+export function MediaPreviewList<T extends PreviewFile = PreviewFile>({
+    files,
+    onRemove,
+    onReorder,
+    primaryIndex,
+    onPrimaryChange,
+    getKey,
+    className = '',
+    itemClassName = '',
+    errorItemClassName = '',
+    primaryItemClassName = '',
+    draggingClassName = '',
+    dragOverClassName = '',
+    renderPreview,
+    renderError,
+    renderItem,
+    locale,
+    texts
+}: MediaPreviewListProps<T>) {
+    const [dragIndex, setDragIndex] = useState<number | null>(null);
+    const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
+
+    const bundle = resolveLocale(locale);
+    const labels = { ...bundle.previewList, ...texts };
+
+    const keyFor = (file: T, index: number) =>
+        getKey?.(file, index) ?? ('id' in file && typeof file.id === 'string' ? file.id : String(index));
+
+    const resetDrag = () => {
+        setDragIndex(null);
+        setDragOverIndex(null);
+    };
+
+    const dragHandlers = (index: number): React.HTMLAttributes<HTMLLIElement> & { draggable?: boolean } => {
+        if (!onReorder) return {};
+
+        return {
+            draggable: true,
+            onDragStart: (event) => {
+                setDragIndex(index);
+                event.dataTransfer.effectAllowed = 'move';
+                // Firefox doesn't start a drag without data
+                event.dataTransfer.setData('text/plain', String(index));
+            },
+            onDragOver: (event) => {
+                if (dragIndex === null) return;
+                event.preventDefault();
+                event.dataTransfer.dropEffect = 'move';
+                if (dragOverIndex !== index) setDragOverIndex(index);
+            },
+            onDrop: (event) => {
+                event.preventDefault();
+                if (dragIndex !== null && dragIndex !== index) {
+                    onReorder(dragIndex, index);
+                    // A primary stored separately follows its item, not its position
+                    if (onPrimaryChange && primaryIndex !== undefined) {
+                        const movedPrimary = getMovedIndex(primaryIndex, dragIndex, index);
+                        if (movedPrimary !== primaryIndex) onPrimaryChange(movedPrimary);
+                    }
+                }
+                resetDrag();
+            },
+            onDragEnd: resetDrag
+        };
+    };
+
+    return (
+        <ul
+            className={className || undefined}
+            style={className ? undefined : {
+                listStyle: 'none',
+                margin: 0,
+                padding: 0,
+                display: 'grid',
+                gridTemplateColumns: 'repeat(auto-fill, minmax(140px, 1fr))',
+                gap: '12px'
+            }}
+        >
+            {files.map((file, index) => {
+                const isPrimary = primaryIndex === index;
+                const isDragging = dragIndex === index;
+                const isDragOver = dragOverIndex === index && dragIndex !== index;
+                const remove = onRemove ? () => {
+                    onRemove(file, index);
+                    // Items after the removed one move up, a removed primary passes to the first item
+                    if (onPrimaryChange && primaryIndex !== undefined) {
+                        if (index < primaryIndex) onPrimaryChange(primaryIndex - 1);
+                        else if (index === primaryIndex) onPrimaryChange(0);
+                    }
+                } : undefined;
+                const setPrimary = onPrimaryChange ? () => onPrimaryChange(index) : undefined;
+
+                const preview = file.processType === 'processed'
+                    ? (renderPreview ? renderPreview(file, index) : <DefaultPreview file={file} localeCode={bundle.code} />)
+                    : (renderError ? renderError(file, index) : (
+                        <div role="alert" style={{ padding: '8px', fontSize: '12px', color: '#b91c1c', textAlign: 'center' }}>
+                            {formatFileError(file.reason, bundle)}
+                        </div>
+                    ));
+
+                const itemClass = [
+                    itemClassName,
+                    file.processType === 'unprocessed' && errorItemClassName,
+                    isPrimary && primaryItemClassName,
+                    isDragging && draggingClassName,
+                    isDragOver && dragOverClassName
+                ].filter(Boolean).join(' ');
+
+                if (renderItem) {
+                    return (
+                        <li key={keyFor(file, index)} className={itemClass || undefined} {...dragHandlers(index)}>
+                            {renderItem(file, { index, isPrimary, isDragging, isDragOver, remove, setPrimary, preview })}
+                        </li>
+                    );
+                }
+
+                return (
+                    <li
+                        key={keyFor(file, index)}
+                        className={itemClass || undefined}
+                        style={itemClassName ? undefined : {
+                            position: 'relative',
+                            padding: '6px',
+                            border: `1px solid ${file.processType === 'unprocessed' ? '#fca5a5' : isPrimary ? '#3b82f6' : '#e5e7eb'}`,
+                            borderRadius: '8px',
+                            backgroundColor: '#ffffff',
+                            opacity: isDragging ? 0.5 : 1,
+                            outline: isDragOver ? '2px dashed #3b82f6' : undefined,
+                            cursor: onReorder ? 'grab' : undefined
+                        }}
+                        {...dragHandlers(index)}
+                    >
+                        <div style={previewBoxStyle}>{preview}</div>
+
+                        <div style={{
+                            marginTop: '6px',
+                            fontSize: '12px',
+                            color: '#374151',
+                            overflow: 'hidden',
+                            textOverflow: 'ellipsis',
+                            whiteSpace: 'nowrap'
+                        }} title={file.meta.name}>
+                            {file.meta.name}
+                        </div>
+
+                        <div style={{ display: 'flex', gap: '4px', marginTop: '6px', flexWrap: 'wrap' }}>
+                            {isPrimary && (
+                                <span style={{ ...smallButtonStyle, cursor: 'default', color: '#ffffff', backgroundColor: '#3b82f6', borderColor: '#3b82f6' }}>
+                                    {labels.primary}
+                                </span>
+                            )}
+                            {!isPrimary && setPrimary && file.processType === 'processed' && (
+                                <button type="button" onClick={setPrimary} style={smallButtonStyle}>
+                                    {labels.makePrimary}
+                                </button>
+                            )}
+                            {remove && (
+                                <button type="button" onClick={remove} style={smallButtonStyle}>
+                                    {labels.remove}
+                                </button>
+                            )}
+                        </div>
+                    </li>
+                );
+            })}
+        </ul>
+    );
+}
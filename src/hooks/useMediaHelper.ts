@@ -0,0 +1,243 @@
+import { useState, useCallback, useMemo, useRef, useEffect } from 'react';
+import { SelectionOptions, ProcessedFile, UnProcessedFile, ProgressInfo, FileError } from '../types/common';
+import { getSelectionFile, getSelectionLimits, validateSelectionCount } from '../utils/validation.utils';
+import { revokeFileUrls } from '../utils/url.utils';
+import { createFileId } from '../utils/id.utils';
+
+/**
+ * A processing result kept by useMediaHelper, with a stable id for keys, removal and retries
+ */
+export type MediaHelperFile = (ProcessedFile | UnProcessedFile) & { id: string };
+
+export interface UseMediaHelperResult {
+    files: MediaHelperFile[];
+    errors: FileError[];
+    progress: ProgressInfo | null;
+    fileProgress: Record<string, ProgressInfo>; // Latest progress of each running file by ProgressInfo.fileId
+    isProcessing: boolean;
+    pick: () => Promise<MediaHelperFile[]>;
+    addFiles: (files: File[]) => Promise<MediaHelperFile[]>;
+    removeFile: (id: string) => void;
+    reorder: (fromIndex: number, toIndex: number) => void;
+    clear: () => void;
+    retry: (id: string) => Promise<MediaHelperFile | undefined>;
+    cancel: () => void;
+}
+
+function revokeResult(result: ProcessedFile | UnProcessedFile): void {
+    if (result.processType === 'processed') {
+        revokeFileUrls(result);
+    }
+}
+
+function isAborted(result: ProcessedFile | UnProcessedFile): boolean {
+    return result.processType === 'unprocessed' && result.reason.errorCode === 'aborted';
+}
+
+/**
+ * Manage a list of processed files: pick or add files, remove, reorder and retry them.
+ * maxSelectionCount applies to the whole list, minSelectionCount to each batch like pickMixed.
+ * Object URLs are revoked when a file is removed and when the component unmounts.
+ */
+export function useMediaHelper(options?: SelectionOptions): UseMediaHelperResult {
+    const [files, setFiles] = useState<MediaHelperFile[]>([]);
+    const [progress, setProgress] = useState<ProgressInfo | null>(null);
+    const [fileProgress, setFileProgress] = useState<Record<string, ProgressInfo>>({});
+    const [activeBatches, setActiveBatches] = useState(0);
+
+    // Latest values for callbacks, so inline options don't recreate them on every render
+    const optionsRef = useRef(options);
+    optionsRef.current = options;
+    const filesRef = useRef<MediaHelperFile[]>([]);
+    const controllersRef = useRef(new Set<AbortController>());
+    // Slots held by batches still processing, so overlapping batches can't pass maxSelectionCount together
+    const pendingCountRef = useRef(0);
+    const isMountedRef = useRef(true);
+
+    const updateFiles = useCallback((update: (current: MediaHelperFile[]) => MediaHelperFile[]) => {
+        filesRef.current = update(filesRef.current);
+        setFiles(filesRef.current);
+    }, []);
+
+    // Cancel processing and free object URLs when the component unmounts
+    useEffect(() => {
+        isMountedRef.current = true;
+        const controllers = controllersRef.current;
+        return () => {
+            isMountedRef.current = false;
+            controllers.forEach(controller => controller.abort());
+            filesRef.current.forEach(revokeResult);
+            filesRef.current = [];
+        };
+    }, []);
+
+    /**
+     * Process a batch, rejecting files that would take the list past maxSelectionCount.
+     * Its slots stay reserved until commit has put the results in the list.
+     */
+    const processBatch = useCallback(async <T>(
+        batch: File[],
+        commit: (results: (ProcessedFile | UnProcessedFile)[]) => T
+    ): Promise<T> => {
+        const currentOptions = optionsRef.current;
+        const { max } = getSelectionLimits(currentOptions?.rules);
+        const acceptedCount = filesRef.current.filter(file => file.processType === 'processed').length + pendingCountRef.current;
+        const existing = Array.from({ length: acceptedCount }, () => ({ name: '' }));
+        const selectionErrors = max !== undefined
+            ? validateSelectionCount([...existing, ...batch], [{ maxSelectionCount: max }]).slice(acceptedCount)
+            : batch.map(() => null);
+        const allowed = batch.filter((_, index) => !selectionErrors[index]);
+        pendingCountRef.current += allowed.length;
+
+        const controller = new AbortController();
+        controllersRef.current.add(controller);
+
+        // The caller's own signal cancels as well
+        const externalSignal = currentOptions?.signal;
+        const forwardAbort = () => controller.abort();
+        if (externalSignal?.aborted) controller.abort();
+        externalSignal?.addEventListener('abort', forwardAbort, { once: true });
+
+        setActiveBatches(count => count + 1);
+        try {
+            // Import MediaHelper dynamically to avoid circular dependency
+            const { default: MediaHelper } = await import('../../index');
+
+            // The list limit was checked above, the batch itself only keeps minSelectionCount
+            const processed = allowed.length > 0
+                ? await MediaHelper.processFilesDirectly(allowed, {
+                    ...currentOptions,
+                    rules: currentOptions?.rules?.map(rule => ({ ...rule, maxSelectionCount: undefined })),
+                    signal: controller.signal,
+                    onProgress: (info) => {
+                        if (isMountedRef.current) {
+                            setProgress(info);
+                            if (info.fileId) {
+                                const fileId = info.fileId;
+                                setFileProgress(current => ({ ...current, [fileId]: info }));
+                            }
+                        }
+                        currentOptions?.onProgress?.(info);
+                    }
+                })
+                : [];
+
+            let next = 0;
+            return commit(batch.map((file, index): ProcessedFile | UnProcessedFile => {
+                const selectionError = selectionErrors[index];
+                return selectionError
+                    ? { processType: 'unprocessed', meta: getSelectionFile(file), originalFile: file, reason: selectionError }
+                    : processed[next++];
+            }));
+        } finally {
+            pendingCountRef.current -= allowed.length;
+            externalSignal?.removeEventListener('abort', forwardAbort);
+            controllersRef.current.delete(controller);
+            if (isMountedRef.current) {
+                setActiveBatches(count => count - 1);
+                if (controllersRef.current.size === 0) {
+                    setProgress(null);
+                    setFileProgress({});
+                }
+            }
+        }
+    }, []);
+
+    const addFiles = useCallback(async (newFiles: File[]): Promise<MediaHelperFile[]> => {
+        if (newFiles.length === 0) return [];
+
+        return processBatch(newFiles, (results) => {
+            // Cancelled files are dropped, they are not errors
+            const added = results
+                .filter(result => !isAborted(result))
+                .map(result => ({ ...result, id: result.id ?? createFileId() }));
+
+            if (!isMountedRef.current) {
+                added.forEach(revokeResult);
+                return [];
+            }
+
+            updateFiles(current => [...current, ...added]);
+            return added;
+        });
+    }, [processBatch, updateFiles]);
+
+    const pick = useCallback(async (): Promise<MediaHelperFile[]> => {
+        const { default: MediaHelper } = await import('../../index');
+        const picked = await MediaHelper.pickFiles(optionsRef.current);
+        return addFiles(picked);
+    }, [addFiles]);
+
+    const removeFile = useCallback((id: string) => {
+        const file = filesRef.current.find(item => item.id === id);
+        if (!file) return;
+
+        revokeResult(file);
+        updateFiles(current => current.filter(item => item.id !== id));
+    }, [updateFiles]);
+
+    const reorder = useCallback((fromIndex: number, toIndex: number) => {
+        updateFiles(current => {
+            if (fromIndex === toIndex || !current[fromIndex] || toIndex < 0 || toIndex >= current.length) {
+                return current;
+            }
+            const next = [...current];
+            const [moved] = next.splice(fromIndex, 1);
+            next.splice(toIndex, 0, moved);
+            return next;
+        });
+    }, [updateFiles]);
+
+    const clear = useCallback(() => {
+        filesRef.current.forEach(revokeResult);
+        updateFiles(() => []);
+    }, [updateFiles]);
+
+    /**
+     * Process a failed file again, keeping its id and position
+     */
+    const retry = useCallback(async (id: string): Promise<MediaHelperFile | undefined> => {
+        const file = filesRef.current.find(item => item.id === id);
+        if (!file || file.processType === 'processed') return file;
+
+        return processBatch([file.originalFile], ([result]): MediaHelperFile | undefined => {
+            if (!isMountedRef.current || isAborted(result)) {
+                revokeResult(result);
+                return undefined;
+            }
+
+            const retried: MediaHelperFile = { ...result, id };
+            // The file may have been removed while it was processing
+            if (!filesRef.current.some(item => item.id === id)) {
+                revokeResult(retried);
+                return undefined;
+            }
+
+            updateFiles(current => current.map(item => item.id === id ? retried : item));
+            return retried;
+        });
+    }, [processBatch, updateFiles]);
+
+    const cancel = useCallback(() => {
+        controllersRef.current.forEach(controller => controller.abort());
+    }, []);
+
+    const errors = useMemo(() => files
+        .filter((file): file is UnProcessedFile & { id: string } => file.processType === 'unprocessed')
+        .map(file => file.reason), [files]);
+
+    return {
+        files,
+        errors,
+        progress,
+        fileProgress,
+        isProcessing: activeBatches > 0,
+        pick,
+        addFiles,
+        removeFile,
+        reorder,
+        clear,
+        retry,
+        cancel
+    };
+}
@@ -0,0 +1,97 @@
+import { MediaHelperLocale } from '../types/i18n';
+
+/**
+ * English bundle, also the source of the FileError messages built by the validators
+ */
+export const en: MediaHelperLocale = {
+    code: 'en',
+
+    errors: {
+        'file-invalid-type': 'File type {type} is not allowed',
+        'file-too-small': 'File is too small. Minimum size: {minSize:bytes}',
+        'file-too-large': 'File is too large. Maximum size: {maxSize:bytes}',
+        'file-type-mismatch': 'File content is {detectedMimeType} but it was declared as {declaredMimeType}',
+        'file-type-detection-error': 'The file type could not be checked',
+        'unknown-file-type': 'Unknown file type: {type}',
+        'too-few-files': 'Minimum {min} file(s) required',
+        'too-many-files': 'Maximum {max} file(s) allowed',
+
+        'image-too-narrow': 'Image is too narrow: {width}px wide, minimum is {minWidth}px',
+        'image-too-wide': 'Image is too wide: {width}px wide, maximum is {maxWidth}px',
+        'image-too-short': 'Image is too short: {height}px high, minimum is {minHeight}px',
+        'image-too-tall': 'Image is too tall: {height}px high, maximum is {maxHeight}px',
+        'image-resolution-too-low': 'Image resolution is too low: {megapixels:number} MP, minimum is {minMegapixels:number} MP',
+        'image-invalid-aspect-ratio': 'Image aspect ratio {width}:{height} is not allowed. Allowed: {allowed}',
+
+        'pdf-too-many-pages': 'The PDF has {pageCount} pages, maximum is {maxPages}',
+        'pdf-password-protected': 'Password-protected PDFs are not allowed',
+
+        'document-password-protected': 'Password-protected documents are not allowed',
+        'document-contains-macros': 'Documents with macros are not allowed',
+        'document-too-many-rows': 'The file has {rowCount:number} rows, maximum is {maxRows:number}',
+        'document-missing-columns': 'Required columns are missing: {columns}',
+        'json-invalid': 'The file is not valid JSON: {error}',
+
+        'archive-too-many-entries': 'The archive contains more than {maxEntries:number} entries',
+        'archive-uncompressed-too-large': 'The archive unpacks to more than {maxSize:bytes}',
+        'archive-extension-not-allowed': 'The archive contains a file type that is not allowed: {entry}',
+        'archive-path-traversal': 'The archive contains an unsafe path: {entry}',
+
+        'image-processing-error': 'The image could not be processed',
+        'video-processing-error': 'The video could not be processed',
+        'audio-processing-error': 'The audio file could not be processed',
+        'document-processing-error': 'The document could not be processed',
+        'archive-processing-error': 'The archive could not be processed',
+        'PROCESSING_ERROR': 'The files could not be processed',
+
+        'aborted': 'Processing was aborted',
+        'upload-failed': 'Upload failed',
+        'request-too-large': 'Request is too large. Maximum size: {maxSize:bytes}',
+        'invalid-form-data': 'Request body must be multipart/form-data',
+        'no-files': 'No files were uploaded'
+    },
+    unknownError: 'The file could not be processed',
+
+    dropzone: {
+        dragActive: 'Drop the files here...',
+        dragInactive: 'Drag & drop files here, or click to select files',
+        processing: 'Processing...',
+        error: 'Error occurred',
+        subDesc: '',
+        pasteHint: 'You can also paste files with Ctrl+V',
+        cancel: 'Cancel',
+        eta: '{seconds}s left',
+        stages: {
+            validating: 'Validating',
+            compressing: 'Compressing',
+            'generating-thumbnail': 'Generating thumbnail',
+            processing: 'Processing',
+            uploading: 'Uploading',
+            completed: 'Completed',
+            error: 'Failed'
+        }
+    },
+
+    announcements: {
+        started: 'Processing {count} file(s)',
+        progress: '{percentage}% processed',
+        completed: '{processed} of {total} file(s) processed',
+        cancelled: 'Processing cancelled',
+        error: '{fileName}: {message}'
+    },
+
+    previewList: {
+        remove: 'Remove',
+        primary: 'Primary',
+        makePrimary: 'Make primary'
+    },
+
+    cropper: {
+        zoom: 'Zoom',
+        rotate: 'Rotate',
+        cancel: 'Cancel',
+        apply: 'Apply',
+        processing: 'Processing...',
+        error: 'The image could not be loaded'
+    }
+};
@@ -0,0 +1,97 @@
+import { MediaHelperLocale } from '../types/i18n';
+
+/**
+ * Turkish bundle
+ */
+export const tr: MediaHelperLocale = {
+    code: 'tr',
+
+    errors: {
+        'file-invalid-type': '{type} dosya tipine izin verilmiyor',
+        'file-too-small': 'Dosya çok küçük. En az: {minSize:bytes}',
+        'file-too-large': 'Dosya çok büyük. En fazla: {maxSize:bytes}',
+        'file-type-mismatch': 'Dosya içeriği {detectedMimeType}, ancak {declaredMimeType} olarak bildirildi',
+        'file-type-detection-error': 'Dosya türü doğrulanamadı',
+        'unknown-file-type': 'Bilinmeyen dosya tipi: {type}',
+        'too-few-files': 'En az {min} dosya seçilmeli',
+        'too-many-files': 'En fazla {max} dosya seçilebilir',
+
+        'image-too-narrow': 'Resim çok dar: genişlik {width}px, en az {minWidth}px olmalı',
+        'image-too-wide': 'Resim çok geniş: genişlik {width}px, en fazla {maxWidth}px olmalı',
+        'image-too-short': 'Resim çok kısa: yükseklik {height}px, en az {minHeight}px olmalı',
+        'image-too-tall': 'Resim çok uzun: yükseklik {height}px, en fazla {maxHeight}px olmalı',
+        'image-resolution-too-low': 'Resim çözünürlüğü çok düşük: {megapixels:number} MP, en az {minMegapixels:number} MP olmalı',
+        'image-invalid-aspect-ratio': '{width}:{height} en-boy oranına izin verilmiyor. İzin verilenler: {allowed}',
+
+        'pdf-too-many-pages': 'PDF {pageCount} sayfa, en fazla {maxPages} sayfa olabilir',
+        'pdf-password-protected': 'Parola korumalı PDF dosyalarına izin verilmiyor',
+
+        'document-password-protected': 'Parola korumalı belgelere izin verilmiyor',
+        'document-contains-macros': 'Makro içeren belgelere izin verilmiyor',
+        'document-too-many-rows': 'Dosyada {rowCount:number} satır var, en fazla {maxRows:number} olabilir',
+        'document-missing-columns': 'Zorunlu kolonlar eksik: {columns}',
+        'json-invalid': 'Dosya geçerli bir JSON değil: {error}',
+
+        'archive-too-many-entries': 'Arşivde {maxEntries:number} girişten fazlası var',
+        'archive-uncompressed-too-large': 'Arşiv açıldığında {maxSize:bytes} boyutunu aşıyor',
+        'archive-extension-not-allowed': 'Arşivde izin verilmeyen bir dosya türü var: {entry}',
+        'archive-path-traversal': 'Arşivde güvenli olmayan bir yol var: {entry}',
+
+        'image-processing-error': 'Resim işlenemedi',
+        'video-processing-error': 'Video işlenemedi',
+        'audio-processing-error': 'Ses dosyası işlenemedi',
+        'document-processing-error': 'Belge işlenemedi',
+        'archive-processing-error': 'Arşiv işlenemedi',
+        'PROCESSING_ERROR': 'Dosyalar işlenemedi',
+
+        'aborted': 'İşlem iptal edildi',
+        'upload-failed': 'Yükleme başarısız oldu',
+        'request-too-large': 'İstek çok büyük. En fazla: {maxSize:bytes}',
+        'invalid-form-data': 'İstek gövdesi multipart/form-data olmalı',
+        'no-files': 'Hiç dosya yüklenmedi'
+    },
+    unknownError: 'Dosya işlenemedi',
+
+    dropzone: {
+        dragActive: 'Dosyaları buraya bırakın...',
+        dragInactive: 'Dosyaları buraya sürükleyip bırakın veya seçmek için tıklayın',
+        processing: 'İşleniyor...',
+        error: 'Bir hata oluştu',
+        subDesc: '',
+        pasteHint: 'Dosyaları Ctrl+V ile de yapıştırabilirsiniz',
+        cancel: 'İptal',
+        eta: '{seconds} sn kaldı',
+        stages: {
+            validating: 'Doğrulanıyor',
+            compressing: 'Sıkıştırılıyor',
+            'generating-thumbnail': 'Küçük resim oluşturuluyor',
+            processing: 'İşleniyor',
+            uploading: 'Yükleniyor',
+            completed: 'Tamamlandı',
+            error: 'Başarısız'
+        }
+    },
+
+    announcements: {
+        started: '{count} dosya işleniyor',
+        progress: '%{percentage} tamamlandı',
+        completed: '{total} dosyadan {processed} tanesi işlendi',
+        cancelled: 'İşlem iptal edildi',
+        error: '{fileName}: {message}'
+    },
+
+    previewList: {
+        remove: 'Kaldır',
+        primary: 'Kapak',
+        makePrimary: 'Kapak yap'
+    },
+
+    cropper: {
+        zoom: 'Yakınlaştır',
+        rotate: 'Döndür',
+        cancel: 'İptal',
+        apply: 'Uygula',
+        processing: 'İşleniyor...',
+        error: 'Resim yüklenemedi'
+    }
+};
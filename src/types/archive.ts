@@ -1,3 +1,35 @@
 import { RuleInfo } from './common';
 
-export interface ArchiveRuleInfo extends RuleInfo { }
\ No newline at end of file
+export interface ArchiveRuleInfo extends RuleInfo {
+    maxEntries?: number; // En fazla giriş sayısı (klasörler dahil, aşılırsa 'archive-too-many-entries')
+    maxTotalUncompressedSize?: number; // Açılmış toplam boyut üst sınırı (byte, zip bombasına karşı, 'archive-uncompressed-too-large')
+    allowedExtensions?: string[]; // Arşivdeki dosyalara izin verilen uzantılar (örn: ['jpg', '.png'], 'archive-extension-not-allowed')
+    rejectPathTraversal?: boolean; // "../" veya mutlak yol içeren girişleri reddet (varsayılan true, 'archive-path-traversal'; listelenemeyen arşivler de 'archive-processing-error' ile reddedilir)
+    extract?: boolean; // Arşivi tarayıcıda aç, içindeki dosyaları eşleşen kurallarla işleyip children olarak döndür (varsayılan false)
+}
+
+export type ArchiveFormat = 'zip' | 'tar' | 'tar.gz' | 'gz';
+
+/**
+ * Arşivdeki bir giriş
+ */
+export interface ArchiveEntry {
+    name: string;            // Arşiv içindeki yol (örn: "photos/1.jpg")
+    size: number;            // Açılmış boyut (byte, ZIP'te maxTotalUncompressedSize varsa açılarak ölçülür, yoksa arşivin bildirdiği değer)
+    compressedSize?: number; // Sıkıştırılmış boyut (yalnızca ZIP'te giriş başına bilinir)
+    isDirectory: boolean;
+    encrypted?: boolean;     // Parola korumalı giriş (ZIP)
+    lastModified?: Date;
+}
+
+/**
+ * Arşivden okunan içerik listesi (zip, tar, tar.gz, gz)
+ */
+export interface ArchiveInfo {
+    format: ArchiveFormat;
+    entries: ArchiveEntry[];
+    entryCount: number; // Giriş sayısı (klasörler dahil)
+    fileCount: number;  // Dosya sayısı
+    totalSize: number;  // Toplam açılmış boyut (byte)
+    truncated: boolean; // maxEntries veya maxTotalUncompressedSize aşıldığı için okuma yarıda kesildi (liste eksik)
+}
@@ -9,4 +9,5 @@ export interface AudioRuleInfo extends RuleInfo {
 
     thumbnailCompressQuality?: number; // Thumbnail sıkıştırma kalitesi (0-100 arası, ses dosyaları için için)
     thumbnailFormat?: 'wav' | 'mp3' | 'ogg' | 'opus'; // Thumbnail formatı (varsayılan 'wav', ses dosyaları için) sesin ön izlemesi mesela 4 dkkalık bi sesin 3.saniyeden 10 sn kadar bir ön izlemesi
+    thumbnailDuration?: number; // Ön izleme süresi (saniye cinsinden, varsayılan 10, startAt'ten itibaren)
 }
\ No newline at end of file
@@ -0,0 +1,27 @@
+/**
+ * getUserMedia ile fotoğraf, video veya ses kaydı ayarları
+ */
+export interface MediaCaptureOptions {
+    kind: 'photo' | 'video' | 'audio'; // Kayıt türü
+    facingMode?: 'user' | 'environment'; // Kamera yönü ('user': ön kamera, 'environment': arka kamera)
+    video?: MediaTrackConstraints; // Ek video kısıtları (örn: { width: 1920, height: 1080 })
+    audio?: boolean | MediaTrackConstraints; // Video kaydında ses (varsayılan true), ses kaydında ek kısıtlar
+    mimeType?: string; // Kayıt formatı (örn: "video/webm"), verilmezse tarayıcının desteklediği ilk format
+    photoType?: 'image/jpeg' | 'image/png' | 'image/webp'; // Fotoğraf formatı (varsayılan image/jpeg)
+    photoQuality?: number; // Fotoğraf kalitesi (0-1 arası, varsayılan 0.92)
+    maxDuration?: number; // En uzun kayıt süresi (ms), dolunca kayıt kendiliğinden durur
+    fileName?: string; // Dosya adı (uzantısız), varsayılan "photo-<zaman>" / "video-<zaman>" / "audio-<zaman>"
+}
+
+/**
+ * Açık bir kamera/mikrofon oturumu
+ * T: File (openMediaCapture) veya işlenmiş sonuç (MediaHelper.openCapture)
+ */
+export interface MediaCaptureSession<T = File> {
+    stream: MediaStream; // Önizleme için <video srcObject> olarak kullanılabilir
+    takePhoto(): Promise<T>; // O anki kareyi fotoğraf olarak al (video akışı gerekir)
+    startRecording(): void; // Video/ses kaydını başlat
+    stopRecording(): Promise<T>; // Kaydı durdur ve dosyayı döndür (maxDuration ile durmuşsa kaydı döndürür)
+    isRecording(): boolean;
+    close(): void; // Kamerayı/mikrofonu kapat
+}
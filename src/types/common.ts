@@ -1,6 +1,7 @@
+import { ArchiveInfo } from './archive';
 import { AudioRuleInfo } from './audio';
-import { DocumentRuleInfo } from './document';
-import { ImageRuleInfo } from './image';
+import { DocumentRuleInfo, DocumentInfo } from './document';
+import { ImageRuleInfo, ImageExifData } from './image';
 import { VideoRuleInfo } from './video';
 /**
  * Seçilen medya dosyasının temel bilgilerini içeren interface
@@ -32,11 +33,17 @@ export interface ExportedFile {
     type: string;      // Dosya tipi (örn: "image", "video", "audio")
     extension: string; // Dosya uzantısı (örn: ".jpg", ".mp4")
     mimeType: string;  // MIME tipi (örn: "image/jpeg", "video/mp4") 
+    width?: number;    // Genişlik (piksel, resim çıktıları için)
+    height?: number;   // Yükseklik (piksel, resim çıktıları için)
+    processedWith?: 'ffmpeg' | 'media-recorder' | 'web-audio'; // Video/ses çıktısını üreten yöntem (ffmpeg yüklenemezse tarayıcı API'lerine düşülür)
 }
 
 
 export interface ProcessedFile {
     processType: 'processed'; // Dosyanın işlenme durumu
+    id?: string; // Seçimdeki dosyanın kimliği (ProgressInfo.fileId ile aynı)
+    parentId?: string;    // Arşivden çıkarılan dosyalarda arşivin id'si (ArchiveRuleInfo.extract)
+    archivePath?: string; // Arşiv içindeki yolu (örn: "photos/1.jpg")
     // Temel dosya bilgileri
     meta: {
         name: string;      // Dosya adı (örn: "photo.jpg")
@@ -44,6 +51,9 @@ export interface ProcessedFile {
         type: string;      // Dosya tipi (örn: "image", "video", "audio")
         extension: string; // Dosya uzantısı (örn: ".jpg", ".mp4")
         mimeType: string;  // MIME tipi (örn: "image/jpeg", "video/mp4") 
+        declaredMimeType?: string; // Tarayıcının/istemcinin bildirdiği MIME tipi (içerikten tespit edilen tipten farklıysa)
+        width?: number;    // Genişlik (piksel, resimler için)
+        height?: number;   // Yükseklik (piksel, resimler için)
     },
 
     // Dosya içeriği (farklı formatlarda)
@@ -54,11 +64,32 @@ export interface ProcessedFile {
 
     // Thumbnail bilgisi (sadece resimler için)
     thumbnail?: ExportedFile
+
+    // Resim varyantları (ImageRuleInfo.variants tanımlıysa, varyant adına göre)
+    variants?: Record<string, ExportedFile>
+
+    // Varyantlardan oluşturulan srcset (örn: "blob:...sm 320w, blob:...lg 1600w"), next/image veya <picture> için
+    srcSet?: string
+
+    // EXIF bilgileri (ImageRuleInfo.metadata 'extract' ise)
+    exif?: ImageExifData
+
+    // Belge bilgileri (PDF ve Office: sayfa sayısı, başlık, yazar, şifreleme; metin: kodlama, CSV kolonları, satır sayısı)
+    document?: DocumentInfo
+
+    // Arşiv içeriği (zip, tar, tar.gz, gz: girişlerin adları ve boyutları)
+    archive?: ArchiveInfo
+
+    // Arşivden çıkarılıp kendi kurallarıyla işlenen dosyalar (ArchiveRuleInfo.extract, iç içe arşivler açılmaz)
+    children?: (ProcessedFile | UnProcessedFile)[]
 }
 
 
 export interface UnProcessedFile {
     processType: 'unprocessed'; // Dosyanın işlenme durumu
+    id?: string; // Seçimdeki dosyanın kimliği (ProgressInfo.fileId ile aynı)
+    parentId?: string;    // Arşivden çıkarılan dosyalarda arşivin id'si (ArchiveRuleInfo.extract)
+    archivePath?: string; // Arşiv içindeki yolu (örn: "photos/1.jpg")
     // Temel dosya bilgileri
     meta: {
         name: string;      // Dosya adı (örn: "photo.jpg")  
@@ -66,6 +97,9 @@ export interface UnProcessedFile {
         type: string;      // Dosya tipi (örn: "image", "video", "audio")
         extension: string; // Dosya uzantısı (örn: ".jpg", ".mp4")
         mimeType: string;  // MIME tipi (örn: "image/jpeg", "video/mp4") 
+        declaredMimeType?: string; // Tarayıcının/istemcinin bildirdiği MIME tipi (içerikten tespit edilen tipten farklıysa)
+        width?: number;    // Genişlik (piksel, resimler için)
+        height?: number;   // Yükseklik (piksel, resimler için)
     },
 
     // Orijinal dosya içeriği
@@ -75,6 +109,7 @@ export interface UnProcessedFile {
         fileName: string;
         errorCode: string;
         message: string;
+        params?: Record<string, string | number>; // Mesaj parametreleri (FileError.params ile aynı)
     }
 }
 
@@ -101,14 +136,22 @@ export interface ProgressInfo {
     currentFile: number; // Şu anki dosya indexi
     totalFiles: number; // Toplam dosya sayısı
     fileName: string; // İşlenen dosya adı
-    stage: 'validating' | 'compressing' | 'generating-thumbnail' | 'processing' | 'completed'; // İşlem aşaması
-    percentage: number; // Genel ilerleme yüzdesi (0-100)
+    stage: 'validating' | 'compressing' | 'generating-thumbnail' | 'processing' | 'uploading' | 'completed' | 'error'; // İşlem aşaması ('error': dosya işlenemedi)
+    percentage: number; // Genel ilerleme yüzdesi (0-100, paralel işlemede tüm dosyaların ortalaması)
+    fileId?: string;       // Dosyanın kimliği (sonuçtaki id ile aynı)
+    fileProgress?: number; // Bu dosyanın ilerleme yüzdesi (0-100, video/ses için encoder'dan gelen gerçek oran)
+    elapsed?: number;      // Bu dosya için geçen süre (ms)
+    eta?: number;          // Bu dosyanın tahmini kalan süresi (ms, henüz tahmin edilemiyorsa undefined)
+    totalEta?: number;     // Tüm seçimin tahmini kalan süresi (ms)
+    bytesUploaded?: number; // Bu dosya için gönderilen byte ('uploading' aşamasında)
+    bytesTotal?: number;    // Bu dosyanın toplam boyutu ('uploading' aşamasında)
 }
 
 export interface FileError {
     fileName: string;
-    errorCode: string;
-    message: string;
+    errorCode: string; // Hata kodu, dil paketlerinde mesaj anahtarı olarak da kullanılır (örn: "file-too-large")
+    message: string;   // İngilizce hata mesajı
+    params?: Record<string, string | number>; // Mesajdaki değerler (örn: { maxSize: 5242880 }), çeviride {maxSize} yerine konur
 }
 
 export type ProgressCallback = (progress: ProgressInfo) => void;
@@ -116,5 +159,17 @@ export type ProgressCallback = (progress: ProgressInfo) => void;
 export interface SelectionOptions {
     rules?: (RuleInfo | AudioRuleInfo | DocumentRuleInfo | ImageRuleInfo | VideoRuleInfo)[]; // Seçim kuralları
     onProgress?: ProgressCallback; // İlerleme callback'i
+    signal?: AbortSignal; // İptal sinyali (AbortController.signal), iptal edilen dosyalar 'aborted' koduyla UnProcessedFile döner
+    concurrency?: number; // Aynı anda işlenecek dosya sayısı (varsayılan 1), sonuçlar seçim sırasını korur
+    useWorker?: boolean;  // Resim kodlamayı Web Worker + OffscreenCanvas ile ana thread dışında yap (varsayılan true, desteklenmezse ana thread)
+    capture?: boolean | 'user' | 'environment'; // Mobilde dosya seçici yerine kamera/mikrofonu aç ('user': ön kamera, 'environment': arka kamera)
+}
+
+/**
+ * Dosya işleyicilere (processImageFile, processVideoFile...) aktarılan ortak işlem ayarları
+ */
+export interface ProcessingContext {
+    signal?: AbortSignal; // İptal sinyali
+    useWorker?: boolean;  // Resim kodlama için worker kullanılsın mı (varsayılan true)
 }
 
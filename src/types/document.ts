@@ -1,3 +1,43 @@
 import { RuleInfo } from './common';
 
-export interface DocumentRuleInfo extends RuleInfo { }
\ No newline at end of file
+export interface DocumentRuleInfo extends RuleInfo {
+    maxPages?: number; // PDF için en fazla sayfa sayısı (aşılırsa 'pdf-too-many-pages')
+    allowPasswordProtected?: boolean; // Şifreli (parola isteyen) belgeleri kabul et (varsayılan false, 'pdf-password-protected' / 'document-password-protected' ile reddedilir)
+    rejectMacros?: boolean; // Makro içeren Office belgelerini reddet (docm, xlsm, vbaProject.bin..., 'document-contains-macros')
+    thumbnailSize?: number; // Belge önizlemesinin en uzun kenarı (piksel, varsayılan 400)
+    snippetLength?: number; // Office ve metin belgelerinden çıkarılacak metin uzunluğu (karakter, varsayılan 500)
+    maxRows?: number; // CSV veri satırı / JSON dizisi eleman sayısı için üst sınır (aşılırsa 'document-too-many-rows')
+    requiredColumns?: string[]; // CSV başlığında (veya JSON dizisindeki nesnelerde) bulunması gereken kolonlar, büyük/küçük harf duyarsız ('document-missing-columns')
+    normalizeText?: boolean; // Metin belgelerini UTF-8 ve LF satır sonlarıyla yeniden kaydet (varsayılan false, dosya olduğu gibi saklanır)
+}
+
+export type DocumentFormat = 'pdf' | 'docx' | 'xlsx' | 'pptx' | 'odt' | 'ods' | 'odp' | 'txt' | 'csv' | 'json';
+
+export type TextEncoding = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1254';
+
+/**
+ * Belgeden okunan bilgiler (PDF ve Office belgeleri)
+ */
+export interface DocumentInfo {
+    format?: DocumentFormat; // Belge formatı (docm, xlsm gibi makrolu türler docx, xlsx olarak geçer)
+    pageCount?: number;  // Sayfa sayısı (PDF, Office belgelerinde kaydedilen değer, şifreli belgelerde okunamaz)
+    slideCount?: number; // Slayt sayısı (pptx, odp)
+    sheetCount?: number; // Sayfa (çalışma sayfası) sayısı (xlsx, ods)
+    wordCount?: number;  // Kelime sayısı (docx, odt, kaydedilmişse)
+    title?: string;      // Belge başlığı (metadata)
+    author?: string;     // Yazar (metadata)
+    text?: string;       // Düz metin özeti (Office ve metin belgeleri, snippetLength kadar)
+    hasMacros?: boolean; // Makro içeriyor mu (Office belgeleri)
+    encrypted: boolean;  // Belge şifreli mi (PDF'lerde yalnızca izin şifresi olanlar da dahil)
+    passwordProtected: boolean; // Açmak için parola gerekiyor mu
+
+    // Metin belgeleri (txt, csv, json)
+    encoding?: TextEncoding; // Tespit edilen karakter kodlaması (BOM, UTF-16 deseni, geçerli UTF-8, yoksa Windows-1254)
+    lineEnding?: 'lf' | 'crlf' | 'cr' | 'mixed'; // Dosyadaki satır sonu (text her zaman LF'e çevrilir)
+    lineCount?: number;  // Satır sayısı
+    delimiter?: string;  // CSV ayırıcısı (',', ';', '\t' veya '|')
+    columns?: string[];  // CSV başlık satırı / JSON dizisindeki ilk nesnenin anahtarları
+    rowCount?: number;   // CSV veri satırı sayısı (başlık hariç) / JSON kök dizisinin eleman sayısı
+    validJson?: boolean; // JSON geçerli mi (geçersizse 'json-invalid' ile reddedilir)
+    jsonError?: string;  // JSON.parse hata mesajı
+}
@@ -0,0 +1,50 @@
+import { ProgressInfo } from './common';
+
+/**
+ * Bileşen metinleri ve hata mesajlarını içeren dil paketi
+ * Mesajlarda {param} yer tutucuları FileError.params değerleriyle doldurulur,
+ * {param:bytes} byte değerini (örn: "5 MB"), {param:number} sayıyı dile göre biçimlendirir
+ */
+export interface MediaHelperLocale {
+    code: string; // Dil kodu (örn: "en", "tr"), sayı biçimlendirmede Intl için kullanılır
+
+    // Hata mesajları, anahtar FileError.errorCode (örn: "file-too-large": "Dosya çok büyük. En fazla: {maxSize:bytes}")
+    errors: Record<string, string>;
+    unknownError: string; // Pakette karşılığı olmayan hata kodları için mesaj
+
+    dropzone: {
+        dragActive: string;   // Dosyalar sürüklenirken gösterilen metin
+        dragInactive: string; // Varsayılan metin
+        processing: string;   // İşleme sırasında gösterilen metin
+        error: string;
+        subDesc: string;      // Ek açıklama (boşsa gösterilmez)
+        pasteHint: string;    // Yapıştırma açıkken gösterilen ipucu (enablePaste)
+        cancel: string;       // İptal butonu
+        eta: string;          // Dosyanın kalan süresi ({seconds})
+        stages: Record<ProgressInfo['stage'], string>; // İşlem aşamalarının adları
+    };
+
+    // Ekran okuyucular için duyurular (ARIA live region)
+    announcements: {
+        started: string;   // İşleme başladı ({count})
+        progress: string;  // Genel ilerleme ({percentage})
+        completed: string; // İşleme bitti ({processed}, {total})
+        cancelled: string; // İşleme iptal edildi
+        error: string;     // Tek bir dosyanın hatası ({fileName}, {message})
+    };
+
+    previewList: {
+        remove: string;
+        primary: string;
+        makePrimary: string;
+    };
+
+    cropper: {
+        zoom: string;
+        rotate: string;
+        cancel: string;
+        apply: string;
+        processing: string;
+        error: string;
+    };
+}
@@ -1,9 +1,86 @@
 import { RuleInfo } from './common';
 
+/**
+ * Kaynak resim üzerinde kırpma alanı (piksel cinsinden)
+ */
+export interface ImageCropBox {
+    x: number;      // Sol kenar
+    y: number;      // Üst kenar
+    width: number;  // Genişlik
+    height: number; // Yükseklik
+}
+
+/**
+ * MediaCropper ile seçilen kırpma alanı (döndürülmüş resim üzerinde, piksel cinsinden)
+ */
+export interface ImageCropArea extends ImageCropBox {
+    rotation: 0 | 90 | 180 | 270; // Saat yönünde döndürme açısı
+}
+
+/**
+ * Yeniden boyutlandırma seçenekleri
+ */
+export interface ImageResizeOptions {
+    maxWidth?: number;  // Hedef maksimum genişlik (piksel)
+    maxHeight?: number; // Hedef maksimum yükseklik (piksel)
+    fit?: 'contain' | 'cover' | 'fill' | 'inside'; // Sığdırma modu (varsayılan 'inside', büyütme yapmaz)
+    crop?: ImageCropBox; // Boyutlandırmadan önce uygulanacak kırpma alanı
+    focalPoint?: { x: number; y: number }; // 'cover' modunda korunacak odak noktası (0-1 arası, varsayılan merkez)
+    background?: string; // 'contain' modunda boş kalan alanın rengi (varsayılan şeffaf, jpeg için beyaz)
+}
+
+/**
+ * Resimden okunan EXIF bilgileri (metadata: 'extract' ile döner)
+ */
+export interface ImageExifData {
+    make?: string;        // Kamera üreticisi (örn: "Apple")
+    model?: string;       // Kamera modeli (örn: "iPhone 15 Pro")
+    lensModel?: string;   // Lens modeli
+    software?: string;    // Yazılım
+    takenAt?: string;     // Çekim zamanı (ISO 8601, örn: "2024-05-01T14:30:00+03:00")
+    orientation?: number; // EXIF yönlendirme değeri (1-8)
+    exposureTime?: number; // Pozlama süresi (saniye)
+    fNumber?: number;     // Diyafram (f/1.8 için 1.8)
+    iso?: number;         // ISO değeri
+    focalLength?: number; // Odak uzaklığı (mm)
+    gps?: {
+        latitude: number;  // Enlem (ondalık derece)
+        longitude: number; // Boylam (ondalık derece)
+        altitude?: number; // Yükseklik (metre)
+    };
+}
+
+/**
+ * Aynı resmin farklı boyut/formatlarda ek kopyası (responsive srcset için)
+ */
+export interface ImageVariantRule {
+    name: string;   // Varyant adı (örn: 'sm', 'lg'), sonuçta variants[name] olarak döner
+    width: number;  // Hedef genişlik (piksel)
+    height?: number; // Hedef yükseklik (piksel, verilmezse en-boy oranı korunur)
+    fit?: ImageResizeOptions['fit']; // Sığdırma modu (varsayılan 'inside')
+    format?: 'jpeg' | 'png' | 'webp' | 'avif'; // Format (varsayılan processedFormat, o da yoksa 'webp')
+    quality?: number; // Sıkıştırma kalitesi (0-100 arası, varsayılan processedCompressQuality)
+}
+
 export interface ImageRuleInfo extends RuleInfo {
     processedCompressQuality: number; // Sıkıştırma kalitesi (0-100 arası, varsayılan 75)
-    processedFormat: 'jpeg' | 'png' | 'webp'; // Dönüştürme formatı (varsayılan 'webp')
+    processedFormat: 'jpeg' | 'png' | 'webp' | 'avif'; // Dönüştürme formatı (varsayılan 'webp')
 
     thumbnailCompressQuality: number; // Thumbnail sıkıştırma kalitesi (0-100 arası, ses dosyaları için için)
-    thumbnailFormat: 'jpeg' | 'png' | 'webp'; // Thumbnail formatı (varsayılan 'webp', ses dosyaları için)
+    thumbnailFormat: 'jpeg' | 'png' | 'webp' | 'avif'; // Thumbnail formatı (varsayılan 'webp', ses dosyaları için)
+    avifFallbackFormat?: 'jpeg' | 'png' | 'webp'; // Tarayıcı AVIF kodlayamıyorsa kullanılacak format (varsayılan 'webp')
+
+    resize?: ImageResizeOptions; // İşlenmiş resim için boyutlandırma/kırpma (örn: 6000px fotoğrafı 2048px'e indirmek)
+    thumbnailResize?: ImageResizeOptions; // Thumbnail boyutlandırma (varsayılan 800x800 'inside')
+    metadata?: 'strip' | 'keep' | 'extract'; // EXIF/GPS verisi (varsayılan 'strip'): 'strip' siler, 'keep' korur (jpeg çıktılarda), 'extract' siler ve ProcessedFile.exif olarak döner
+    variants?: ImageVariantRule[]; // Ek boyutlar (örn: [{ name: 'sm', width: 320, format: 'webp' }]), crop ve focalPoint resize'dan alınır
+
+    minWidth?: number;  // Minimum genişlik (piksel)
+    maxWidth?: number;  // Maksimum genişlik (piksel)
+    minHeight?: number; // Minimum yükseklik (piksel)
+    maxHeight?: number; // Maksimum yükseklik (piksel)
+    minMegapixels?: number; // Minimum çözünürlük (megapiksel, örn: 2 = 2.000.000 piksel)
+
+    allowedAspectRatios?: (string | number)[]; // İzin verilen en-boy oranları (örn: ['1:1', '4:5'] veya [1, 0.8])
+    aspectRatioTolerance?: number; // En-boy oranı toleransı (oransal, varsayılan 0.01 yani %1)
 }
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { FileError, ProcessedFile, ProgressCallback, UnProcessedFile } from './common';
+
+/**
+ * Yarım kalan yüklemelerin devam bilgisini saklayan depo (varsayılan localStorage, yoksa bellek)
+ */
+export interface UploadResumeStore {
+    get(key: string): string | null | Promise<string | null>;
+    set(key: string, value: string): void | Promise<void>;
+    remove(key: string): void | Promise<void>;
+}
+
+export interface UploadOptions {
+    endpoint: string; // Yükleme adresi (tus için oluşturma adresi, örn: "/api/upload" veya "https://tus.example.com/files/")
+    protocol?: 'http' | 'tus'; // Protokol (varsayılan 'http': Content-Range ile parça parça POST, 'tus': tus 1.0.0)
+
+    chunkSize?: number;  // Parça boyutu (byte, varsayılan 5 MB)
+    concurrency?: number; // Aynı anda yüklenecek dosya sayısı (varsayılan 1)
+    headers?: Record<string, string> | (() => Record<string, string> | Promise<Record<string, string>>); // Ek başlıklar (örn: Authorization), fonksiyon ise her istekte çağrılır
+    metadata?: (file: ProcessedFile) => Record<string, string>; // Dosya başına ek bilgi (tus Upload-Metadata, http için X-Upload-Metadata)
+
+    retries?: number;       // Başarısız istek için tekrar deneme sayısı (varsayılan 3)
+    retryDelay?: number;    // İlk bekleme süresi (ms, varsayılan 1000), her denemede iki katına çıkar
+    maxRetryDelay?: number; // En uzun bekleme süresi (ms, varsayılan 30000)
+
+    resume?: boolean; // Sayfa yenilense bile yarım kalan yüklemeye devam et (varsayılan true)
+    resumeStore?: UploadResumeStore; // Devam bilgisinin saklanacağı yer
+    resumeKey?: (file: ProcessedFile) => string; // Dosyanın devam anahtarı (varsayılan: ad, boyut, tip ve ilk/son 64 KB'ın özeti)
+
+    onProgress?: ProgressCallback; // İlerleme callback'i ('uploading' aşaması, bytesUploaded / bytesTotal ile)
+    signal?: AbortSignal; // İptal sinyali
+    fetch?: typeof fetch; // Özel fetch (test ortamı, mock sunucu veya interceptor için)
+}
+
+export interface UploadResult {
+    status: 'uploaded' | 'failed' | 'aborted' | 'skipped'; // Yükleme durumu ('skipped': UnProcessedFile yüklenmez)
+    fileName: string; // Yüklenen dosyanın adı
+    file: ProcessedFile | UnProcessedFile; // Kaynak sonuç
+    uploadUrl?: string; // tus yükleme adresi (Location) veya http yükleme kimliği
+    bytesUploaded: number; // Gönderilen byte sayısı
+    response?: unknown; // Son isteğin cevabı (JSON ise parse edilmiş hali)
+    error?: FileError; // Hata bilgisi (failed / aborted ise)
+}
+
+/**
+ * Presigned URL istenen tek bir nesne (işlenmiş dosya, thumbnail veya varyant)
+ */
+export interface PresignedUploadRequest {
+    file: File; // Yüklenecek dosya
+    kind: 'processed' | 'thumbnail' | 'variant'; // Nesnenin türü
+    variantName?: string; // Varyant adı (kind 'variant' ise)
+    result: ProcessedFile; // Ait olduğu işlenmiş sonuç
+    multipart: boolean; // Dosya multipartThreshold'u aştığı için parça parça yüklenecek mi
+    partCount?: number; // Parça sayısı (multipart ise, her parça için bir imzalı adres beklenir)
+}
+
+/**
+ * S3 CompleteMultipartUpload için parça bilgisi
+ */
+export interface PresignedUploadPart {
+    partNumber: number; // Parça numarası (1'den başlar)
+    etag: string;       // Parçanın ETag değeri (CORS ayarında ExposeHeaders: ETag gerekir)
+}
+
+/**
+ * getPresignedUrl tarafından döndürülen yükleme bilgisi
+ */
+export interface PresignedUpload {
+    key: string; // Nesne anahtarı (sonuçta keys içinde döner)
+    url?: string; // Tek parça yükleme adresi
+    method?: 'PUT' | 'POST'; // Yükleme yöntemi (varsayılan 'PUT', 'POST' S3 presigned POST policy için)
+    fields?: Record<string, string>; // POST policy form alanları (dosyadan önce eklenir)
+    headers?: Record<string, string>; // İmzaya dahil edilen başlıklar (örn: Content-Type)
+    parts?: string[]; // Multipart: parça numarası sırasıyla imzalı UploadPart adresleri
+    complete?: (parts: PresignedUploadPart[]) => Promise<void>; // Multipart tamamlama (sunucunuzda CompleteMultipartUpload)
+    abort?: () => Promise<void>; // Multipart iptali (hata veya iptal durumunda, AbortMultipartUpload)
+}
+
+export interface PresignedUploadOptions {
+    getPresignedUrl: (request: PresignedUploadRequest) => Promise<PresignedUpload>; // Her nesne için imzalı adres üreten fonksiyon (genelde kendi API'niz)
+
+    includeThumbnail?: boolean; // Thumbnail'i de yükle (varsayılan true)
+    includeVariants?: boolean;  // Resim varyantlarını da yükle (varsayılan true)
+    multipartThreshold?: number; // Bu boyuttan büyük dosyalar multipart yüklenir (byte, varsayılan 100 MB)
+    partSize?: number; // Multipart parça boyutu (byte, varsayılan 10 MB, S3 için en az 5 MB)
+    concurrency?: number; // Aynı anda yüklenecek sonuç sayısı (varsayılan 1)
+
+    retries?: number;       // Başarısız istek için tekrar deneme sayısı (varsayılan 3)
+    retryDelay?: number;    // İlk bekleme süresi (ms, varsayılan 1000)
+    maxRetryDelay?: number; // En uzun bekleme süresi (ms, varsayılan 30000)
+
+    onProgress?: ProgressCallback; // İlerleme callback'i ('uploading' aşaması)
+    signal?: AbortSignal; // İptal sinyali
+    fetch?: typeof fetch; // Özel fetch (test ortamı için)
+}
+
+export interface PresignedUploadResult {
+    status: 'uploaded' | 'failed' | 'aborted' | 'skipped'; // Yükleme durumu ('skipped': UnProcessedFile yüklenmez)
+    fileName: string; // İşlenmiş dosyanın adı
+    file: ProcessedFile | UnProcessedFile; // Kaynak sonuç
+    keys?: {
+        processed?: string; // İşlenmiş dosyanın nesne anahtarı
+        thumbnail?: string; // Thumbnail nesne anahtarı
+        variants?: Record<string, string>; // Varyant adı -> nesne anahtarı
+    };
+    error?: FileError; // Hata bilgisi (failed / aborted ise)
+}
+
+/**
+ * createUploadRoute ayarları
+ */
+export interface UploadRouteOptions {
+    fieldName?: string; // Dosyaların okunacağı form alanı (varsayılan: tüm dosya alanları)
+    maxRequestSize?: number; // İstek gövdesi için üst sınır (byte, Content-Length'e ve okunan gövdeye bakılır, aşılırsa 413)
+    concurrency?: number; // Aynı anda işlenecek dosya sayısı (varsayılan 1)
+    onUpload?: (files: ProcessedFile[], request: Request) => unknown | Promise<unknown>; // Geçerli dosyaları kaydetmek için (dönen değer cevapta data olarak yer alır)
+    onError?: (error: unknown, request: Request) => void; // onUpload hata verdiğinde (loglamak için, istemciye yalnızca genel 'upload-failed' mesajı döner)
+}
+
+/**
+ * Route cevabında JSON'a çevrilebilen dosya bilgisi (File, Blob ve url içermez)
+ */
+export interface UploadRouteFile {
+    name: string;      // Orijinal dosya adı
+    size: number;      // Orijinal boyut (byte)
+    type: string;      // Dosya tipi (örn: "image", "video")
+    extension: string; // Dosya uzantısı
+    mimeType: string;  // İçerikten tespit edilen MIME tipi
+    declaredMimeType?: string; // İstemcinin bildirdiği MIME tipi (farklıysa)
+    width?: number;    // Genişlik (piksel, resimler için)
+    height?: number;   // Yükseklik (piksel, resimler için)
+    processed: {
+        name: string;
+        size: number;
+        mimeType: string;
+        width?: number;
+        height?: number;
+    };
+}
+
+export interface UploadRouteResponse {
+    success: boolean; // Tüm dosyalar kabul edildiyse true
+    files: UploadRouteFile[]; // Kabul edilen dosyalar
+    errors: FileError[]; // Reddedilen dosyalar, istemci tarafıyla aynı hata kodlarıyla
+    data?: unknown; // onUpload'ın döndürdüğü değer
+}
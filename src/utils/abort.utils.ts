@@ -0,0 +1,57 @@
+import { UnProcessedFile } from '../types/common';
+
+/**
+ * Error thrown by processing steps when the caller's AbortSignal fires
+ */
+export function createAbortError(): Error {
+    return new DOMException('Processing was aborted', 'AbortError');
+}
+
+/**
+ * Check for an abort error (ours, fetch's or any other DOM API's)
+ */
+export function isAbortError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { name?: string }).name === 'AbortError';
+}
+
+/**
+ * Stop the current step if processing was aborted
+ */
+export function throwIfAborted(signal?: AbortSignal): void {
+    if (signal?.aborted) {
+        throw createAbortError();
+    }
+}
+
+/**
+ * Reject as soon as the signal fires, for steps that can't be cancelled themselves
+ */
+export function abortable<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+    if (signal.aborted) return Promise.reject(createAbortError());
+
+    return new Promise((resolve, reject) => {
+        const handleAbort = () => reject(createAbortError());
+        signal.addEventListener('abort', handleAbort, { once: true });
+
+        promise.then(resolve, reject).finally(() => {
+            signal.removeEventListener('abort', handleAbort);
+        });
+    });
+}
+
+/**
+ * Result for a file whose processing was aborted
+ */
+export function createAbortedResult(file: File, meta: UnProcessedFile['meta']): UnProcessedFile {
+    return {
+        processType: 'unprocessed',
+        meta,
+        originalFile: file,
+        reason: {
+            fileName: file.name,
+            errorCode: 'aborted',
+            message: 'Processing was aborted'
+        }
+    };
+}
@@ -0,0 +1,264 @@
+import { ArchiveEntry, ArchiveFormat, ArchiveInfo } from '../types/archive';
+import { decompressBytes, measureZipEntry, readZipEntries, readZipEntry } from './zip.utils';
+import { isTarHeader, readTarEntries } from './tar.utils';
+import { throwIfAborted } from './abort.utils';
+
+/**
+ * Stop listing once these are passed, the rules reject the archive anyway
+ */
+export interface ArchiveReadLimits {
+    maxEntries?: number;
+    maxTotalSize?: number;
+}
+
+export interface ExtractedFile {
+    path: string; // Path inside the archive, the file itself only gets the base name
+    file: File;
+}
+
+// gzip header flags
+const FEXTRA = 0x04;
+const FNAME = 0x08;
+// Extracted files are held in memory, this applies when maxTotalUncompressedSize isn't set
+const MAX_EXTRACT_SIZE = 1024 * 1024 * 1024;
+
+// Types content sniffing can't tell, so extracted files still match rules by MIME type
+const UNSNIFFABLE_MIME_TYPES: Record<string, string> = {
+    txt: 'text/plain',
+    md: 'text/markdown',
+    csv: 'text/csv',
+    tsv: 'text/tab-separated-values',
+    json: 'application/json',
+    xml: 'application/xml',
+    svg: 'image/svg+xml'
+};
+
+/**
+ * Entry names that would be written outside the target folder: absolute paths, drive letters or ".." segments
+ */
+export function isUnsafeEntryPath(name: string): boolean {
+    const path = name.replace(/\\/g, '/');
+    return path.startsWith('/') || /^[a-z]:/i.test(path) || path.split('/').includes('..');
+}
+
+function gunzip(file: Blob): ReadableStream<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('DecompressionStream is not supported in this environment');
+    }
+    return file.stream().pipeThrough(new DecompressionStream('gzip'));
+}
+
+/**
+ * Original file name stored in a gzip header (FNAME), if any
+ */
+function readGzipName(header: Uint8Array): string | undefined {
+    if (!(header[3] & FNAME)) return undefined;
+    let position = 10;
+    if (header[3] & FEXTRA) {
+        position += 2 + (header[10] | (header[11] << 8));
+    }
+    const end = header.indexOf(0, position);
+    return end > position ? new TextDecoder('latin1').decode(header.subarray(position, end)) : undefined;
+}
+
+/**
+ * Name of the single file in a gz: from the header, otherwise the archive name without .gz
+ */
+async function getGzipEntryName(file: Blob & { name?: string }): Promise<string> {
+    const header = new Uint8Array(await file.slice(0, 1024).arrayBuffer());
+    return readGzipName(header) || (file.name || 'file.gz').replace(/\.gz$/i, '') || 'file';
+}
+
+/**
+ * macOS resource forks and Finder/Explorer metadata, never worth extracting
+ */
+function isSystemEntry(path: string): boolean {
+    return path.split('/').includes('__MACOSX') || /(^|\/)(\.DS_Store|Thumbs\.db|desktop\.ini)$/i.test(path);
+}
+
+function toExtractedFile(path: string, data: Uint8Array, lastModified?: Date): ExtractedFile {
+    const name = path.split('/').pop() || path;
+    const extension = name.includes('.') ? name.split('.').pop()!.toLowerCase() : '';
+    return {
+        path,
+        file: new File([data], name, { type: UNSNIFFABLE_MIME_TYPES[extension] || '', lastModified: lastModified?.getTime() })
+    };
+}
+
+/**
+ * Archive format by magic bytes, gzip is told apart from tar.gz by its decompressed start
+ */
+export async function getArchiveFormat(file: Blob): Promise<ArchiveFormat | undefined> {
+    const header = new Uint8Array(await file.slice(0, 512).arrayBuffer());
+    // PK\3\4, or PK\5\6 for an empty archive
+    if (header[0] === 0x50 && header[1] === 0x4b && (header[2] === 3 || header[2] === 5)) return 'zip';
+    if (isTarHeader(header)) return 'tar';
+    if (header[0] !== 0x1f || header[1] !== 0x8b) return undefined;
+
+    const reader = gunzip(file).getReader();
+    const start = new Uint8Array(512);
+    let length = 0;
+    try {
+        while (length < start.length) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            const size = Math.min(value.length, start.length - length);
+            start.set(value.subarray(0, size), length);
+            length += size;
+        }
+    } finally {
+        await reader.cancel();
+    }
+    return isTarHeader(start) ? 'tar.gz' : 'gz';
+}
+
+/**
+ * Limit check called after every entry; extraSize is metadata that counts against the size limit too
+ */
+function createLimitCheck(limits: ArchiveReadLimits) {
+    let totalSize = 0;
+    let counted = 0;
+    return (entries: { size: number }[], extraSize = 0): boolean => {
+        for (; counted < entries.length; counted++) {
+            totalSize += entries[counted].size;
+        }
+        return (limits.maxEntries !== undefined && entries.length > limits.maxEntries)
+            || (limits.maxTotalSize !== undefined && totalSize + extraSize > limits.maxTotalSize);
+    };
+}
+
+function toArchiveInfo(format: ArchiveFormat, entries: ArchiveEntry[], truncated: boolean): ArchiveInfo {
+    return {
+        format,
+        entries,
+        entryCount: entries.length,
+        fileCount: entries.filter(entry => !entry.isDirectory).length,
+        totalSize: entries.reduce((total, entry) => total + entry.size, 0),
+        truncated
+    };
+}
+
+/**
+ * List the entries of a zip, tar, tar.gz or gz file (undefined for other formats such as rar or 7z).
+ * Nothing is kept in memory: ZIP sizes come from the central directory (or from inflating each entry
+ * when maxTotalSize is set), TAR sizes from the headers and a single gz file is decompressed only to be measured.
+ */
+export async function readArchive(
+    file: Blob & { name?: string },
+    limits: ArchiveReadLimits = {},
+    signal?: AbortSignal
+): Promise<ArchiveInfo | undefined> {
+    const format = await getArchiveFormat(file);
+    if (!format) return undefined;
+
+    const shouldStop = createLimitCheck(limits);
+
+    if (format === 'zip') {
+        const entries: ArchiveEntry[] = [];
+        let totalSize = 0;
+        for (const entry of await readZipEntries(file)) {
+            throwIfAborted(signal);
+            // With a size limit the entries are inflated and counted, the declared sizes can lie.
+            // Encrypted entries can't be inflated, only their declared size is known.
+            const size = limits.maxTotalSize !== undefined && !entry.isDirectory && !entry.encrypted
+                ? await measureZipEntry(file, entry, limits.maxTotalSize - totalSize)
+                : entry.size;
+            totalSize += size;
+
+            entries.push({
+                name: entry.name,
+                size,
+                compressedSize: entry.compressedSize,
+                isDirectory: entry.isDirectory,
+                encrypted: entry.encrypted,
+                lastModified: entry.lastModified
+            });
+            if (shouldStop(entries)) return toArchiveInfo(format, entries, true);
+        }
+        return toArchiveInfo(format, entries, false);
+    }
+
+    if (format === 'tar' || format === 'tar.gz') {
+        let truncated = false;
+        const entries = await readTarEntries(format === 'tar' ? file.stream() : gunzip(file), {
+            shouldStop: (current, headerSize) => truncated = shouldStop(current, headerSize),
+            signal
+        });
+        return toArchiveInfo(format, entries, truncated);
+    }
+
+    // A single compressed file, its size is only known after decompressing
+    const name = await getGzipEntryName(file);
+    const reader = gunzip(file).getReader();
+    let size = 0;
+    let truncated = false;
+    try {
+        for (;;) {
+            throwIfAborted(signal);
+            const { done, value } = await reader.read();
+            if (done) break;
+            size += value.length;
+            if (limits.maxTotalSize !== undefined && size > limits.maxTotalSize) {
+                truncated = true;
+                break;
+            }
+        }
+    } finally {
+        await reader.cancel();
+    }
+
+    return toArchiveInfo(format, [{ name, size, isDirectory: false }], truncated);
+}
+
+/**
+ * Unpack the files of a zip, tar, tar.gz or gz file into memory. Directories and system files
+ * (__MACOSX, .DS_Store) are skipped, encrypted ZIP entries and anything past maxSize throw.
+ */
+export async function extractArchive(
+    file: Blob & { name?: string },
+    maxSize = MAX_EXTRACT_SIZE,
+    signal?: AbortSignal
+): Promise<ExtractedFile[]> {
+    const format = await getArchiveFormat(file);
+    if (!format) {
+        throw new Error(`Unsupported archive format: ${file.name || 'archive'}`);
+    }
+
+    const tooLarge = () => new Error(`Archive is larger than ${maxSize} bytes when unpacked`);
+
+    if (format === 'zip') {
+        const extracted: ExtractedFile[] = [];
+        let remaining = maxSize;
+        for (const entry of await readZipEntries(file)) {
+            throwIfAborted(signal);
+            const path = entry.name.replace(/\\/g, '/');
+            if (entry.isDirectory || isSystemEntry(path)) continue;
+            if (entry.size > remaining) throw tooLarge();
+
+            // Capped at the declared size, so a lying header can't pass the limit either
+            const data = await readZipEntry(file, entry, remaining);
+            remaining -= data.length;
+            extracted.push(toExtractedFile(path, data, entry.lastModified));
+        }
+        return extracted;
+    }
+
+    if (format === 'tar' || format === 'tar.gz') {
+        let totalSize = 0;
+        const entries = await readTarEntries(format === 'tar' ? file.stream() : gunzip(file), {
+            readData: entry => {
+                if (isSystemEntry(entry.name)) return false;
+                totalSize += entry.size;
+                if (totalSize > maxSize) throw tooLarge();
+                return true;
+            },
+            signal
+        });
+        return entries
+            .filter(entry => entry.data)
+            .map(entry => toExtractedFile(entry.name, entry.data!, entry.lastModified));
+    }
+
+    const data = await decompressBytes(file, 'gzip', maxSize, signal);
+    return [toExtractedFile(await getGzipEntryName(file), data)];
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ProcessedFile, UnProcessedFile } from '../types/common';
+import { readArchive } from './archive.reader.utils';
+import { processArchiveFile } from './archive.utils';
+
+async function createGzipFile(content: string, name: string): Promise<File> {
+    const stream = new Blob([content]).stream().pipeThrough(new CompressionStream('gzip'));
+    return new File([await new Response(stream).arrayBuffer()], name, { type: 'application/gzip' });
+}
+
+describe('archive abort', () => {
+    it('stops reading when the signal is already aborted', async () => {
+        const file = await createGzipFile('hello', 'notes.txt.gz');
+        const controller = new AbortController();
+        controller.abort();
+
+        await expect(readArchive(file, {}, controller.signal)).rejects.toMatchObject({ name: 'AbortError' });
+    });
+
+    it('returns the aborted result when the signal fires while the children are processed', async () => {
+        const file = await createGzipFile('hello', 'notes.txt.gz');
+        const controller = new AbortController();
+        const processChildren = jest.fn(async (files: File[]): Promise<(ProcessedFile | UnProcessedFile)[]> => {
+            controller.abort();
+            return files.map(child => ({
+                processType: 'unprocessed',
+                meta: { name: child.name, size: child.size, type: 'document', extension: '.txt', mimeType: 'text/plain' },
+                originalFile: child,
+                reason: { fileName: child.name, errorCode: 'aborted', message: 'Processing was aborted' }
+            }));
+        });
+
+        const result = await processArchiveFile(file, { extract: true }, undefined, { signal: controller.signal }, processChildren);
+
+        expect(processChildren).toHaveBeenCalledTimes(1);
+        expect(result.processType).toBe('unprocessed');
+        expect((result as UnProcessedFile).reason.errorCode).toBe('aborted');
+    });
+});
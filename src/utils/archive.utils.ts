@@ -1,12 +1,17 @@
-import { ProcessedFile, UnProcessedFile, ExportedFile, ProgressCallback } from '../types/common';
-import { ArchiveRuleInfo } from '../types/archive';
+import { ProcessedFile, UnProcessedFile, ExportedFile, ProgressCallback, ProcessingContext } from '../types/common';
+import { ArchiveInfo, ArchiveRuleInfo } from '../types/archive';
+import { FileProgressCallback } from './progress.utils';
+import { extractArchive, readArchive } from './archive.reader.utils';
+import { hasArchiveContentRules, validateArchiveInfo } from './validation.utils';
+import { createAbortedResult, isAbortError, throwIfAborted } from './abort.utils';
+import { revokeFileUrls } from './url.utils';
 
 /**
  * Generate archive thumbnail (icon with file count)
  */
 async function generateArchiveThumbnail(
     file: File,
-    _rules?: ArchiveRuleInfo
+    info?: ArchiveInfo
 ): Promise<ExportedFile | undefined> {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
@@ -59,7 +64,7 @@ async function generateArchiveThumbnail(
         ctx.font = '12px sans-serif';
         ctx.fillStyle = '#4b5563';
         const sizeText = `${(file.size / (1024 * 1024)).toFixed(1)} MB`;
-        ctx.fillText(sizeText, canvas.width / 2, canvas.height - 20);
+        ctx.fillText(info ? `${info.fileCount} files · ${sizeText}` : sizeText, canvas.width / 2, canvas.height - 20);
     }
     
     return new Promise((resolve) => {
@@ -85,15 +90,23 @@ async function generateArchiveThumbnail(
     });
 }
 
+/**
+ * Runs extracted files through the regular pipeline (MediaHelper.processFiles with the same rules)
+ */
+export type ArchiveChildProcessor = (
+    files: File[],
+    onProgress: ProgressCallback
+) => Promise<(ProcessedFile | UnProcessedFile)[]>;
+
 /**
  * Process archive file
  */
 export async function processArchiveFile(
     file: File,
     rules?: ArchiveRuleInfo,
-    onProgress?: ProgressCallback,
-    currentIndex?: number,
-    totalFiles?: number
+    onProgress?: FileProgressCallback,
+    context?: ProcessingContext,
+    processChildren?: ArchiveChildProcessor
 ): Promise<ProcessedFile | UnProcessedFile> {
     const extension = '.' + file.name.split('.').pop()!.toLowerCase();
     const meta = {
@@ -103,24 +116,63 @@ export async function processArchiveFile(
         extension,
         mimeType: file.type || 'application/zip'
     };
+    const signal = context?.signal;
 
+    let processed: ExportedFile | undefined;
+    let thumbnail: ExportedFile | undefined;
     try {
+        throwIfAborted(signal);
         // Progress: processing
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'processing',
-                percentage: Math.round(((currentIndex + 0.5) / totalFiles) * 100)
+        onProgress?.('processing', 0.5);
+
+        // Entry list of zip, tar and gz files, reading stops early once a limit is passed
+        let archiveInfo: ArchiveInfo | undefined;
+        try {
+            archiveInfo = await readArchive(file, {
+                maxEntries: rules?.maxEntries,
+                maxTotalSize: rules?.maxTotalUncompressedSize
+            }, signal);
+        } catch (error) {
+            // The content rules can't be checked without the list, otherwise the icon thumbnail is enough
+            if (isAbortError(error) || hasArchiveContentRules(rules)) throw error;
+        }
+        // Same for formats that can't be listed (rar, 7z)
+        if (!archiveInfo && hasArchiveContentRules(rules)) {
+            throw new Error(`Unsupported archive format: ${file.name}`);
+        }
+
+        const archiveError = archiveInfo && validateArchiveInfo(file.name, archiveInfo, rules);
+        if (archiveError) {
+            return {
+                processType: 'unprocessed',
+                meta,
+                originalFile: file,
+                reason: archiveError
+            };
+        }
+
+        // Inner files are processed like a selection of their own, the archive's progress covers them
+        let children: (ProcessedFile | UnProcessedFile)[] | undefined;
+        if (rules?.extract && processChildren) {
+            if (!archiveInfo) {
+                throw new Error(`Unsupported archive format: ${file.name}`);
+            }
+            const extracted = await extractArchive(file, rules.maxTotalUncompressedSize, signal);
+            children = await processChildren(
+                extracted.map(entry => entry.file),
+                progress => onProgress?.('processing', 0.5 + progress.percentage / 100 * 0.3)
+            );
+            children.forEach((child, index) => {
+                child.archivePath = extracted[index].path;
             });
+            throwIfAborted(signal);
         }
 
         // Archives typically aren't processed, just stored
         const processedFile = file;
 
         // Create processed object
-        const processed: ExportedFile = {
+        processed = {
             name: processedFile.name,
             size: processedFile.size,
             type: 'archive',
@@ -138,37 +190,28 @@ export async function processArchiveFile(
         // Note: Base64 for archives is usually not recommended due to size
 
         // Generate thumbnail
-        let thumbnail: ExportedFile | undefined;
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'generating-thumbnail',
-                percentage: Math.round(((currentIndex + 0.8) / totalFiles) * 100)
-            });
-        }
-        thumbnail = await generateArchiveThumbnail(file, rules);
+        onProgress?.('generating-thumbnail', 0.8);
+        thumbnail = await generateArchiveThumbnail(file, archiveInfo);
+        throwIfAborted(signal);
 
         // Progress: completed
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'completed',
-                percentage: Math.round(((currentIndex + 1) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('completed', 1);
 
         return {
             processType: 'processed',
             meta,
             originalFile: file,
             processed,
-            thumbnail
+            thumbnail,
+            ...(archiveInfo && { archive: archiveInfo }),
+            ...(children && { children })
         };
     } catch (error) {
+        if (isAbortError(error)) {
+            revokeFileUrls({ processed, thumbnail });
+            return createAbortedResult(file, meta);
+        }
+
         return {
             processType: 'unprocessed',
             meta,
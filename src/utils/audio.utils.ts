@@ -1,12 +1,35 @@
-import { ProcessedFile, UnProcessedFile, ExportedFile, ProgressCallback } from '../types/common';
+import { ProcessedFile, UnProcessedFile, ExportedFile, ProcessingContext } from '../types/common';
 import { AudioRuleInfo } from '../types/audio';
+import { runFFmpeg, qualityToScale } from './ffmpeg.utils';
+import { abortable, createAbortError, createAbortedResult, isAbortError } from './abort.utils';
+import { revokeFileUrls } from './url.utils';
+import { FileProgressCallback } from './progress.utils';
+
+type AudioFormat = NonNullable<AudioRuleInfo['processedFormat']>;
+
+const AUDIO_MIME_TYPES: Record<AudioFormat, string> = {
+    wav: 'audio/wav',
+    mp3: 'audio/mpeg',
+    ogg: 'audio/ogg',
+    opus: 'audio/opus'
+};
+
+interface AudioClipOptions {
+    startAt?: number;   // Start time (seconds)
+    duration?: number;  // Clip length (seconds), whole remainder when omitted
+    format?: AudioFormat; // Target format, original container is kept (stream copy) when omitted
+    quality?: number;   // 0-100
+    namePrefix?: string;
+    signal?: AbortSignal;
+}
 
 /**
  * Generate audio waveform visualization as thumbnail
  */
 async function generateAudioWaveform(
     file: File,
-    _rules?: AudioRuleInfo
+    _rules?: AudioRuleInfo,
+    signal?: AbortSignal
 ): Promise<ExportedFile> {
     return new Promise((resolve, reject) => {
         const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
@@ -16,6 +39,10 @@ async function generateAudioWaveform(
             try {
                 const arrayBuffer = e.target?.result as ArrayBuffer;
                 const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
+                if (signal?.aborted) {
+                    reject(createAbortError());
+                    return;
+                }
                 
                 // Create canvas for waveform
                 const canvas = document.createElement('canvas');
@@ -89,30 +116,171 @@ async function generateAudioWaveform(
     });
 }
 
+/**
+ * Build ffmpeg codec arguments for the target audio format
+ */
+function getAudioCodecArgs(format: AudioFormat, quality: number): string[] {
+    switch (format) {
+        case 'mp3':
+            return ['-c:a', 'libmp3lame', '-q:a', String(qualityToScale(quality, 0, 9))];
+        case 'ogg':
+            return ['-c:a', 'libvorbis', '-q:a', String(Math.round(quality / 10))];
+        case 'opus':
+            return ['-c:a', 'libopus', '-b:a', `${Math.round(32 + (quality / 100) * 128)}k`];
+        case 'wav':
+        default:
+            return ['-c:a', 'pcm_s16le'];
+    }
+}
+
+/**
+ * Encode an AudioBuffer as 16-bit PCM WAV
+ */
+function encodeWav(buffer: AudioBuffer, startAt: number, duration?: number): Blob {
+    const sampleRate = buffer.sampleRate;
+    const channels = buffer.numberOfChannels;
+    const startFrame = Math.min(buffer.length, Math.floor(startAt * sampleRate));
+    const endFrame = duration ? Math.min(buffer.length, startFrame + Math.floor(duration * sampleRate)) : buffer.length;
+    const frameCount = endFrame - startFrame;
+    const dataSize = frameCount * channels * 2;
+
+    const view = new DataView(new ArrayBuffer(44 + dataSize));
+    const writeString = (offset: number, value: string) => {
+        for (let i = 0; i < value.length; i++) view.setUint8(offset + i, value.charCodeAt(i));
+    };
+
+    writeString(0, 'RIFF');
+    view.setUint32(4, 36 + dataSize, true);
+    writeString(8, 'WAVE');
+    writeString(12, 'fmt ');
+    view.setUint32(16, 16, true);
+    view.setUint16(20, 1, true);
+    view.setUint16(22, channels, true);
+    view.setUint32(24, sampleRate, true);
+    view.setUint32(28, sampleRate * channels * 2, true);
+    view.setUint16(32, channels * 2, true);
+    view.setUint16(34, 16, true);
+    writeString(36, 'data');
+    view.setUint32(40, dataSize, true);
+
+    const channelData = Array.from({ length: channels }, (_, c) => buffer.getChannelData(c));
+    let offset = 44;
+    for (let frame = startFrame; frame < endFrame; frame++) {
+        for (let c = 0; c < channels; c++) {
+            const sample = Math.max(-1, Math.min(1, channelData[c][frame]));
+            view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+            offset += 2;
+        }
+    }
+
+    return new Blob([view], { type: 'audio/wav' });
+}
+
+/**
+ * Trim with Web Audio and encode as WAV (fallback when ffmpeg.wasm can't be loaded)
+ */
+async function clipAudioWithWebAudio(
+    file: File,
+    options: AudioClipOptions
+): Promise<File> {
+    const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+    try {
+        const audioBuffer = await abortable(audioContext.decodeAudioData(await file.arrayBuffer()), options.signal);
+        const blob = encodeWav(audioBuffer, options.startAt || 0, options.duration);
+        const baseName = file.name.replace(/\.[^.]+$/, '');
+        return new File([blob], `${options.namePrefix || ''}${baseName}.wav`, { type: 'audio/wav' });
+    } finally {
+        audioContext.close();
+    }
+}
+
+/**
+ * Trim and/or convert audio with ffmpeg.wasm
+ */
+async function clipAudio(
+    file: File,
+    options: AudioClipOptions,
+    onClipProgress?: (ratio: number) => void
+): Promise<ExportedFile> {
+    const extension = file.name.split('.').pop()!.toLowerCase();
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+    const format = options.format;
+
+    const inputArgs: string[] = [];
+    const args: string[] = ['-vn']; // Drop embedded cover art
+    if (options.startAt && options.startAt > 0) {
+        inputArgs.push('-ss', String(options.startAt));
+    }
+    if (options.duration && options.duration > 0) {
+        args.push('-t', String(options.duration));
+    }
+    args.push(...(format ? getAudioCodecArgs(format, options.quality ?? 75) : ['-c', 'copy']));
+
+    try {
+        const clip = await runFFmpeg({
+            input: file,
+            outputName: `${options.namePrefix || ''}${baseName}.${format || extension}`,
+            outputMimeType: format ? AUDIO_MIME_TYPES[format] : file.type,
+            inputArgs,
+            args,
+            duration: options.duration,
+            onProgress: onClipProgress,
+            signal: options.signal
+        });
+        return toExportedAudio(clip, 'ffmpeg');
+    } catch (error) {
+        // WAV output (and trimming into WAV) can still be done with Web Audio
+        if ((!format || format === 'wav') && !isAbortError(error)) {
+            return toExportedAudio(await clipAudioWithWebAudio(file, options), 'web-audio');
+        }
+        throw error;
+    }
+}
+
+/**
+ * Wrap a generated audio file as ExportedFile
+ */
+function toExportedAudio(file: File, processedWith?: ExportedFile['processedWith']): ExportedFile {
+    return {
+        name: file.name,
+        size: file.size,
+        type: 'audio',
+        extension: '.' + file.name.split('.').pop()!.toLowerCase(),
+        mimeType: file.type,
+        file,
+        url: URL.createObjectURL(file),
+        ...(processedWith && { processedWith })
+    };
+}
+
 /**
  * Create audio preview/thumbnail (shorter clip)
  */
 async function createAudioPreview(
     file: File,
-    rules?: AudioRuleInfo
+    rules?: AudioRuleInfo,
+    signal?: AbortSignal
 ): Promise<ExportedFile | undefined> {
-    // If duration and startAt are specified, create a preview clip
-    if (rules?.duration && rules?.startAt !== undefined) {
-        // This would require server-side processing or Web Audio API manipulation
-        // For now, we'll just create a reference to the original with metadata
-        return {
-            name: `preview_${file.name}`,
-            size: file.size,
-            type: 'audio',
-            extension: '.' + file.name.split('.').pop()!,
-            mimeType: file.type,
-            file: file,
-            url: URL.createObjectURL(file)
-        };
+    // If a preview format or range is specified, create a short preview clip
+    if (rules?.thumbnailFormat || (rules?.duration && rules?.startAt !== undefined)) {
+        const previewDuration = rules.thumbnailDuration || 10;
+        try {
+            return await clipAudio(file, {
+                startAt: rules.startAt,
+                duration: rules.duration ? Math.min(rules.duration, previewDuration) : previewDuration,
+                format: rules.thumbnailFormat || 'wav',
+                quality: rules.thumbnailCompressQuality,
+                namePrefix: 'preview_',
+                signal
+            });
+        } catch (error) {
+            // Fall back to the waveform below
+            if (isAbortError(error)) throw error;
+        }
     }
     
     // Generate waveform as visual thumbnail
-    return generateAudioWaveform(file, rules);
+    return generateAudioWaveform(file, rules, signal);
 }
 
 /**
@@ -121,9 +289,8 @@ async function createAudioPreview(
 export async function processAudioFile(
     file: File,
     rules?: AudioRuleInfo,
-    onProgress?: ProgressCallback,
-    currentIndex?: number,
-    totalFiles?: number
+    onProgress?: FileProgressCallback,
+    context?: ProcessingContext
 ): Promise<ProcessedFile | UnProcessedFile> {
     const extension = '.' + file.name.split('.').pop()!.toLowerCase();
     const meta = {
@@ -133,36 +300,39 @@ export async function processAudioFile(
         extension,
         mimeType: file.type
     };
+    const signal = context?.signal;
 
+    let processed: ExportedFile | undefined;
+    let thumbnail: ExportedFile | undefined;
     try {
         // Progress: processing
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'processing',
-                percentage: Math.round(((currentIndex + 0.3) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('processing', 0.3);
 
-        // For audio, we typically don't compress in the browser
-        // This would require server-side processing
-        const processedFile = file;
+        // Trim and/or convert if requested
+        let clip: ExportedFile | undefined;
+        const hasClipRange = (!!rules?.startAt && rules.startAt > 0) || !!rules?.duration;
+        if (hasClipRange || rules?.processedFormat || rules?.processedCompressQuality) {
+            const reportClipProgress = (ratio: number) => {
+                onProgress?.('compressing', 0.3 + ratio * 0.5);
+            };
+
+            reportClipProgress(0);
+            clip = await clipAudio(file, {
+                startAt: rules?.startAt,
+                duration: rules?.duration,
+                // Quality without an explicit format re-encodes to the default format
+                format: rules?.processedFormat || (rules?.processedCompressQuality ? 'wav' : undefined),
+                quality: rules?.processedCompressQuality,
+                signal
+            }, reportClipProgress);
+        }
 
         // Create processed object
-        const processed: ExportedFile = {
-            name: processedFile.name,
-            size: processedFile.size,
-            type: 'audio',
-            extension,
-            mimeType: processedFile.type,
-            file: processedFile,
-            url: URL.createObjectURL(processedFile)
-        };
+        processed = clip || toExportedAudio(file);
+        const processedFile = processed.file!;
 
         // Generate base64 if needed (usually for small audio files)
-        if (rules?.willGenerateBase64 && file.size < 5 * 1024 * 1024) { // Only for files < 5MB
+        if (rules?.willGenerateBase64 && processedFile.size < 5 * 1024 * 1024) { // Only for files < 5MB
             const reader = new FileReader();
             processed.base64 = await new Promise((resolve) => {
                 reader.onload = () => resolve(reader.result as string);
@@ -176,32 +346,16 @@ export async function processAudioFile(
         }
 
         // Generate thumbnail (waveform or preview)
-        let thumbnail: ExportedFile | undefined;
         try {
-            if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-                onProgress({
-                    currentFile: currentIndex + 1,
-                    totalFiles,
-                    fileName: file.name,
-                    stage: 'generating-thumbnail',
-                    percentage: Math.round(((currentIndex + 0.8) / totalFiles) * 100)
-                });
-            }
-            thumbnail = await createAudioPreview(file, rules);
+            onProgress?.('generating-thumbnail', 0.8);
+            thumbnail = await createAudioPreview(file, rules, signal);
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.warn('Failed to generate audio thumbnail:', error);
         }
 
         // Progress: completed
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'completed',
-                percentage: Math.round(((currentIndex + 1) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('completed', 1);
 
         return {
             processType: 'processed',
@@ -211,6 +365,11 @@ export async function processAudioFile(
             thumbnail
         };
     } catch (error) {
+        if (isAbortError(error)) {
+            revokeFileUrls({ processed, thumbnail });
+            return createAbortedResult(file, meta);
+        }
+
         return {
             processType: 'unprocessed',
             meta,
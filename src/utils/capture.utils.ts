@@ -0,0 +1,202 @@
+import { MediaCaptureOptions, MediaCaptureSession } from '../types/capture';
+
+// First supported one wins, Safari only records mp4
+const VIDEO_MIME_TYPES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm', 'video/mp4'];
+const AUDIO_MIME_TYPES = ['audio/webm;codecs=opus', 'audio/webm', 'audio/mp4', 'audio/ogg;codecs=opus'];
+
+const EXTENSIONS: Record<string, string> = {
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'video/webm': 'webm',
+    'video/mp4': 'mp4',
+    'audio/webm': 'webm',
+    'audio/mp4': 'm4a',
+    'audio/ogg': 'ogg'
+};
+
+/**
+ * MIME type without codec parameters, as rules and validateFile expect it
+ */
+function baseMimeType(mimeType: string): string {
+    return mimeType.split(';')[0].trim().toLowerCase();
+}
+
+function timestamp(): string {
+    return new Date().toISOString().replace(/[:.]/g, '-');
+}
+
+function createFile(blob: Blob, name: string, mimeType: string): File {
+    const type = baseMimeType(mimeType);
+    const extension = EXTENSIONS[type] || type.split('/')[1] || 'bin';
+    return new File([blob], `${name}.${extension}`, { type, lastModified: Date.now() });
+}
+
+/**
+ * Files from a paste event (e.g. a screenshot pasted with Ctrl+V) or any DataTransfer
+ */
+export function getClipboardFiles(source: ClipboardEvent | DataTransfer | null | undefined): File[] {
+    const data = source && 'clipboardData' in source ? source.clipboardData : source;
+    if (!data) return [];
+
+    const files = Array.from(data.items || [])
+        .filter(item => item.kind === 'file')
+        .map(item => item.getAsFile())
+        .filter((file): file is File => file !== null);
+
+    // Some browsers only fill data.files
+    const list = files.length > 0 ? files : Array.from(data.files || []);
+
+    // Pasted images often have no name
+    return list.map((file, index) => file.name
+        ? file
+        : createFile(file, `pasted-${timestamp()}${list.length > 1 ? `-${index + 1}` : ''}`, file.type));
+}
+
+/**
+ * Read images from the clipboard with the async Clipboard API (for a "Paste" button).
+ * Needs a user gesture and permission, resolves an empty array when the clipboard holds no files.
+ */
+export async function readClipboardFiles(): Promise<File[]> {
+    if (typeof navigator === 'undefined' || !navigator.clipboard?.read) {
+        throw new Error('Reading files from the clipboard is not supported in this browser');
+    }
+
+    const items = await navigator.clipboard.read();
+    const files: File[] = [];
+    for (const item of items) {
+        // Text is not a file, take the first non-text representation
+        const type = item.types.find(itemType => !itemType.startsWith('text/'));
+        if (type) {
+            const blob = await item.getType(type);
+            files.push(createFile(blob, `pasted-${timestamp()}${items.length > 1 ? `-${files.length + 1}` : ''}`, type));
+        }
+    }
+    return files;
+}
+
+function pickRecordingMimeType(options: MediaCaptureOptions): string | undefined {
+    if (options.mimeType) return options.mimeType;
+    if (typeof MediaRecorder === 'undefined' || typeof MediaRecorder.isTypeSupported !== 'function') return undefined;
+
+    const candidates = options.kind === 'audio' ? AUDIO_MIME_TYPES : VIDEO_MIME_TYPES;
+    return candidates.find(mimeType => MediaRecorder.isTypeSupported(mimeType));
+}
+
+/**
+ * Open the camera and/or microphone. Show session.stream in a <video> for a preview,
+ * then take a photo or record, and close the session when done.
+ */
+export async function openMediaCapture(options: MediaCaptureOptions): Promise<MediaCaptureSession> {
+    if (typeof navigator === 'undefined' || !navigator.mediaDevices?.getUserMedia) {
+        throw new Error('Camera and microphone access is not supported in this browser (it needs a secure context)');
+    }
+
+    const wantsVideo = options.kind !== 'audio';
+    const constraints: MediaStreamConstraints = {
+        video: wantsVideo ? { facingMode: options.facingMode, ...options.video } : false,
+        audio: options.kind === 'photo' ? false : options.audio ?? true
+    };
+    const stream = await navigator.mediaDevices.getUserMedia(constraints);
+
+    // Frames for photos come from a detached video element
+    let video: HTMLVideoElement | null = null;
+    const getVideo = async (): Promise<HTMLVideoElement> => {
+        if (!video) {
+            video = document.createElement('video');
+            video.muted = true;
+            video.playsInline = true;
+            video.srcObject = stream;
+            await video.play();
+        }
+        if (!video.videoWidth) {
+            const element = video;
+            await new Promise(resolve => element.addEventListener('loadedmetadata', resolve, { once: true }));
+        }
+        return video;
+    };
+
+    let recorder: MediaRecorder | null = null;
+    let recording: Promise<File> | null = null;
+    let stopTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const close = () => {
+        clearTimeout(stopTimer);
+        if (recorder && recorder.state !== 'inactive') recorder.stop();
+        stream.getTracks().forEach(track => track.stop());
+        if (video) video.srcObject = null;
+    };
+
+    return {
+        stream,
+
+        async takePhoto() {
+            if (!wantsVideo) {
+                throw new Error('takePhoto needs a photo or video capture session');
+            }
+
+            const frame = await getVideo();
+            const canvas = document.createElement('canvas');
+            canvas.width = frame.videoWidth;
+            canvas.height = frame.videoHeight;
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('Failed to get canvas context');
+            ctx.drawImage(frame, 0, 0, canvas.width, canvas.height);
+
+            const type = options.photoType || 'image/jpeg';
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, options.photoQuality ?? 0.92));
+            if (!blob) throw new Error('Failed to capture photo');
+
+            return createFile(blob, options.fileName || `photo-${timestamp()}`, blob.type || type);
+        },
+
+        startRecording() {
+            if (options.kind === 'photo') {
+                throw new Error('startRecording needs a video or audio capture session');
+            }
+            if (typeof MediaRecorder === 'undefined') {
+                throw new Error('Recording is not supported in this browser');
+            }
+            if (recorder && recorder.state !== 'inactive') return;
+
+            const mimeType = pickRecordingMimeType(options);
+            const activeRecorder = new MediaRecorder(stream, mimeType ? { mimeType } : undefined);
+            const chunks: Blob[] = [];
+            recorder = activeRecorder;
+
+            recording = new Promise<File>((resolve, reject) => {
+                activeRecorder.ondataavailable = (event) => {
+                    if (event.data.size > 0) chunks.push(event.data);
+                };
+                activeRecorder.onerror = () => reject(new Error('Recording failed'));
+                activeRecorder.onstop = () => {
+                    clearTimeout(stopTimer);
+                    const type = activeRecorder.mimeType || mimeType || (options.kind === 'audio' ? 'audio/webm' : 'video/webm');
+                    resolve(createFile(new Blob(chunks, { type }), options.fileName || `${options.kind}-${timestamp()}`, type));
+                };
+            });
+
+            activeRecorder.start();
+            if (options.maxDuration) {
+                stopTimer = setTimeout(() => {
+                    if (activeRecorder.state !== 'inactive') activeRecorder.stop();
+                }, options.maxDuration);
+            }
+        },
+
+        stopRecording() {
+            if (!recorder || !recording) {
+                return Promise.reject(new Error('Recording has not been started'));
+            }
+            if (recorder.state !== 'inactive') recorder.stop();
+            return recording;
+        },
+
+        isRecording() {
+            return !!recorder && recorder.state === 'recording';
+        },
+
+        close
+    };
+}
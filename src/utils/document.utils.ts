@@ -1,16 +1,19 @@
-import { ProcessedFile, UnProcessedFile, ExportedFile, ProgressCallback } from '../types/common';
-import { DocumentRuleInfo } from '../types/document';
+import { ProcessedFile, UnProcessedFile, ExportedFile } from '../types/common';
+import { DocumentRuleInfo, DocumentInfo } from '../types/document';
+import { FileProgressCallback } from './progress.utils';
+import { validateDocumentInfo } from './validation.utils';
+import { readPdf } from './pdf.utils';
+import { getOfficeFormat, DocumentPreview, readOfficeDocument } from './office.utils';
+import { getTextFormat, readTextDocument } from './text.utils';
+
+function isPdf(file: File): boolean {
+    return file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf');
+}
 
 /**
- * Generate document thumbnail (first page preview for PDFs, icon for others)
+ * Generic icon thumbnail with the file extension, for documents that can't be rendered
  */
-async function generateDocumentThumbnail(
-    file: File,
-    _rules?: DocumentRuleInfo
-): Promise<ExportedFile | undefined> {
-    // For PDFs, we could use pdf.js to render first page
-    // For now, we'll create a simple icon-based thumbnail
-    
+function drawDocumentIcon(file: File): HTMLCanvasElement {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     canvas.width = 200;
@@ -54,27 +57,127 @@ async function generateDocumentThumbnail(
         const ext = file.name.split('.').pop()?.toUpperCase() || 'DOC';
         ctx.fillText(ext, canvas.width / 2, canvas.height / 2 + 20);
     }
-    
+
+    return canvas;
+}
+
+/**
+ * Wrap a line to the width, breaking long words as well
+ */
+function wrapText(ctx: CanvasRenderingContext2D, text: string, width: number): string[] {
+    const lines: string[] = [];
+    let line = '';
+    for (const word of text.replace(/\s+/g, ' ').trim().split(' ')) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (ctx.measureText(candidate).width <= width || !line) {
+            line = candidate;
+        } else {
+            lines.push(line);
+            line = word;
+        }
+        while (ctx.measureText(line).width > width && line.length > 1) {
+            let cut = line.length - 1;
+            while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > width) cut--;
+            lines.push(line.slice(0, cut));
+            line = line.slice(cut);
+        }
+    }
+    if (line) lines.push(line);
+    return lines;
+}
+
+/**
+ * Draw the text of the first page, slide or sheet of an Office document
+ */
+function drawTextPreview(preview: DocumentPreview, size: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    // A4 portrait for pages, 16:9 for slides, 4:3 for sheets
+    canvas.width = preview.layout === 'page' ? Math.round(size / Math.SQRT2) : size;
+    canvas.height = preview.layout === 'page' ? size : Math.round(size * (preview.layout === 'slide' ? 9 / 16 : 3 / 4));
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return canvas;
+
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.strokeStyle = '#e5e7eb';
+    ctx.strokeRect(0.5, 0.5, canvas.width - 1, canvas.height - 1);
+
+    const padding = Math.round(canvas.width * 0.07);
+    const fontSize = Math.max(6, Math.round(canvas.width / (preview.layout === 'page' ? 28 : 36)));
+    ctx.textBaseline = 'top';
+    ctx.fillStyle = '#374151';
+
+    if (preview.layout === 'sheet') {
+        const columns = Math.max(1, ...preview.rows.map(row => row.length));
+        const cellWidth = (canvas.width - padding) / columns;
+        const rowHeight = Math.round(fontSize * 1.8);
+        ctx.font = `${fontSize}px sans-serif`;
+
+        preview.rows.forEach((row, rowIndex) => {
+            const y = padding / 2 + rowIndex * rowHeight;
+            if (y + rowHeight > canvas.height) return;
+            ctx.strokeRect(padding / 2, y, cellWidth * columns, rowHeight);
+            row.forEach((cell, column) => {
+                const x = padding / 2 + column * cellWidth;
+                ctx.save();
+                ctx.beginPath();
+                ctx.rect(x, y, cellWidth, rowHeight);
+                ctx.clip();
+                ctx.fillText(cell, x + 3, y + (rowHeight - fontSize) / 2);
+                ctx.restore();
+            });
+        });
+        return canvas;
+    }
+
+    let y = padding;
+    const textWidth = canvas.width - padding * 2;
+    for (const [index, [text]] of preview.rows.entries()) {
+        // The first line of a slide is usually its title
+        const isTitle = preview.layout === 'slide' && index === 0;
+        const lineSize = isTitle ? fontSize * 2 : fontSize;
+        ctx.font = `${isTitle ? 'bold ' : ''}${lineSize}px sans-serif`;
+
+        for (const line of wrapText(ctx, text, textWidth)) {
+            if (y + lineSize > canvas.height - padding) return canvas;
+            ctx.fillText(line, padding, y);
+            y += lineSize * 1.4;
+        }
+        y += lineSize * 0.6;
+    }
+
+    return canvas;
+}
+
+/**
+ * Encode a thumbnail canvas, rendered pages as webp (png where webp encoding isn't supported)
+ */
+function toThumbnail(canvas: HTMLCanvasElement, file: File, mimeType: string): Promise<ExportedFile | undefined> {
     return new Promise((resolve) => {
         canvas.toBlob((blob) => {
             if (blob) {
-                const thumbFile = new File([blob], `thumb_${file.name}.png`, {
-                    type: 'image/png'
+                // Safari silently falls back to png
+                const extension = blob.type === 'image/webp' ? '.webp' : '.png';
+                const thumbFile = new File([blob], `thumb_${file.name}${extension}`, {
+                    type: blob.type || 'image/png'
                 });
                 
                 resolve({
                     name: thumbFile.name,
                     size: blob.size,
                     type: 'image',
-                    extension: '.png',
-                    mimeType: 'image/png',
+                    extension,
+                    mimeType: thumbFile.type,
                     file: thumbFile,
-                    url: URL.createObjectURL(blob)
+                    url: URL.createObjectURL(blob),
+                    width: canvas.width,
+                    height: canvas.height
                 });
             } else {
                 resolve(undefined);
             }
-        }, 'image/png');
+        }, mimeType, 0.85);
     });
 }
 
@@ -84,9 +187,7 @@ async function generateDocumentThumbnail(
 export async function processDocumentFile(
     file: File,
     rules?: DocumentRuleInfo,
-    onProgress?: ProgressCallback,
-    currentIndex?: number,
-    totalFiles?: number
+    onProgress?: FileProgressCallback
 ): Promise<ProcessedFile | UnProcessedFile> {
     const extension = '.' + file.name.split('.').pop()!.toLowerCase();
     const meta = {
@@ -99,18 +200,48 @@ export async function processDocumentFile(
 
     try {
         // Progress: processing
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'processing',
-                percentage: Math.round(((currentIndex + 0.5) / totalFiles) * 100)
-            });
+        onProgress?.('processing', 0.3);
+
+        // Page count, metadata and a render of the first page for PDFs,
+        // properties, text and macros for Office documents, encoding and table shape for text files
+        let documentInfo: DocumentInfo | undefined;
+        let firstPage: HTMLCanvasElement | undefined;
+        let preview: DocumentPreview | undefined;
+        let content: string | undefined;
+        const officeFormat = getOfficeFormat(file);
+        const textFormat = officeFormat ? undefined : getTextFormat(file);
+        if (isPdf(file)) {
+            try {
+                ({ info: documentInfo, firstPage } = await readPdf(file, rules?.thumbnailSize));
+            } catch (error) {
+                // Without a page count the rule can't be checked, otherwise the icon thumbnail is enough
+                if (rules?.maxPages) throw error;
+            }
+        } else if (officeFormat) {
+            try {
+                ({ info: documentInfo, preview } = await readOfficeDocument(file, officeFormat, rules?.snippetLength));
+            } catch (error) {
+                // Same for macros, a file that can't be opened can't be checked
+                if (rules?.rejectMacros) throw error;
+            }
+        } else if (textFormat) {
+            ({ info: documentInfo, preview, content } = await readTextDocument(file, textFormat, rules?.snippetLength));
+        }
+
+        const documentError = documentInfo && validateDocumentInfo(file.name, documentInfo, rules);
+        if (documentError) {
+            return {
+                processType: 'unprocessed',
+                meta,
+                originalFile: file,
+                reason: documentError
+            };
         }
 
-        // Documents typically aren't processed, just stored
-        const processedFile = file;
+        // Documents typically aren't processed, just stored (text files may be re-saved as UTF-8 with LF)
+        const processedFile = rules?.normalizeText && content !== undefined
+            ? new File([content], file.name, { type: file.type || 'text/plain', lastModified: file.lastModified })
+            : file;
 
         // Create processed object
         const processed: ExportedFile = {
@@ -139,34 +270,25 @@ export async function processDocumentFile(
 
         // Generate thumbnail
         let thumbnail: ExportedFile | undefined;
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'generating-thumbnail',
-                percentage: Math.round(((currentIndex + 0.8) / totalFiles) * 100)
-            });
+        onProgress?.('generating-thumbnail', 0.8);
+        if (firstPage) {
+            thumbnail = await toThumbnail(firstPage, file, 'image/webp');
+        } else if (preview && preview.rows.length > 0) {
+            thumbnail = await toThumbnail(drawTextPreview(preview, rules?.thumbnailSize || 400), file, 'image/webp');
+        } else {
+            thumbnail = await toThumbnail(drawDocumentIcon(file), file, 'image/png');
         }
-        thumbnail = await generateDocumentThumbnail(file, rules);
 
         // Progress: completed
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'completed',
-                percentage: Math.round(((currentIndex + 1) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('completed', 1);
 
         return {
             processType: 'processed',
             meta,
             originalFile: file,
             processed,
-            thumbnail
+            thumbnail,
+            ...(documentInfo && { document: documentInfo })
         };
     } catch (error) {
         return {
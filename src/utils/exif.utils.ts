@@ -0,0 +1,263 @@
+import { ImageExifData } from '../types/image';
+
+const JPEG_SOI = 0xffd8;
+const MARKER_APP1 = 0xe1;
+const MARKER_SOS = 0xda;
+
+// Segments that may carry personal data: APP1 (EXIF/XMP), APP13 (IPTC), COM (comments)
+const METADATA_MARKERS = [MARKER_APP1, 0xed, 0xfe];
+
+// Byte size of each TIFF field type
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+interface JpegSegment {
+    marker: number;
+    start: number;  // Offset of the 0xFF marker byte
+    end: number;    // Offset right after the segment
+}
+
+type TagValue = number | number[] | string;
+
+/**
+ * Check for the JPEG start-of-image marker
+ */
+export function isJpeg(bytes: Uint8Array): boolean {
+    return bytes.length > 3 && ((bytes[0] << 8) | bytes[1]) === JPEG_SOI;
+}
+
+/**
+ * Look for an EXIF block in any container (JPEG/WebP/HEIC "Exif", PNG "eXIf" chunk)
+ */
+export function containsExif(bytes: Uint8Array): boolean {
+    for (let i = 0; i + 4 <= bytes.length; i++) {
+        const tag = String.fromCharCode(bytes[i], bytes[i + 1], bytes[i + 2], bytes[i + 3]);
+        if (tag === 'Exif' || tag === 'eXIf') return true;
+    }
+    return false;
+}
+
+/**
+ * List the JPEG header segments up to the start of the image data
+ */
+function readJpegSegments(bytes: Uint8Array): { segments: JpegSegment[]; dataStart: number } {
+    const segments: JpegSegment[] = [];
+    let offset = 2;
+
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        if (marker === MARKER_SOS) break;
+
+        const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+        segments.push({ marker, start: offset, end: offset + 2 + length });
+        offset += 2 + length;
+    }
+
+    return { segments, dataStart: offset };
+}
+
+/**
+ * Find the APP1 segment holding EXIF data ("Exif\0\0" header)
+ */
+function findExifSegment(bytes: Uint8Array): JpegSegment | undefined {
+    if (!isJpeg(bytes)) return undefined;
+
+    return readJpegSegments(bytes).segments.find(segment =>
+        segment.marker === MARKER_APP1 &&
+        String.fromCharCode(...bytes.subarray(segment.start + 4, segment.start + 10)) === 'Exif\0\0'
+    );
+}
+
+/**
+ * Read all entries of a TIFF IFD
+ */
+function readIfd(view: DataView, tiffStart: number, ifdOffset: number, little: boolean): Map<number, { value: TagValue; valueOffset: number; type: number }> {
+    const tags = new Map<number, { value: TagValue; valueOffset: number; type: number }>();
+    const ifdStart = tiffStart + ifdOffset;
+    if (ifdStart + 2 > view.byteLength) return tags;
+
+    const count = view.getUint16(ifdStart, little);
+    for (let i = 0; i < count; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 12 > view.byteLength) break;
+
+        const tag = view.getUint16(entry, little);
+        const type = view.getUint16(entry + 2, little);
+        const valueCount = view.getUint32(entry + 4, little);
+        const size = (TIFF_TYPE_SIZES[type] || 1) * valueCount;
+        const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, little);
+        if (valueOffset + size > view.byteLength) continue;
+
+        let value: TagValue;
+        if (type === 2) {
+            const chars: number[] = [];
+            for (let j = 0; j < valueCount; j++) {
+                const char = view.getUint8(valueOffset + j);
+                if (char === 0) break;
+                chars.push(char);
+            }
+            value = String.fromCharCode(...chars).trim();
+        } else {
+            const values: number[] = [];
+            for (let j = 0; j < valueCount; j++) {
+                const offset = valueOffset + j * (TIFF_TYPE_SIZES[type] || 1);
+                switch (type) {
+                    case 3: values.push(view.getUint16(offset, little)); break;
+                    case 4: values.push(view.getUint32(offset, little)); break;
+                    case 9: values.push(view.getInt32(offset, little)); break;
+                    case 5: values.push(view.getUint32(offset, little) / (view.getUint32(offset + 4, little) || 1)); break;
+                    case 10: values.push(view.getInt32(offset, little) / (view.getInt32(offset + 4, little) || 1)); break;
+                    default: values.push(view.getUint8(offset));
+                }
+            }
+            value = values.length === 1 ? values[0] : values;
+        }
+
+        tags.set(tag, { value, valueOffset, type });
+    }
+
+    return tags;
+}
+
+/**
+ * Open the TIFF structure inside an EXIF APP1 segment
+ */
+function openTiff(bytes: Uint8Array, segment: JpegSegment) {
+    const tiffStart = segment.start + 10;
+    const view = new DataView(bytes.buffer, bytes.byteOffset, segment.end);
+    const little = view.getUint16(tiffStart) === 0x4949; // "II" = little endian, "MM" = big endian
+    const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, little), little);
+    return { view, tiffStart, little, ifd0 };
+}
+
+/**
+ * Convert "YYYY:MM:DD HH:MM:SS" to an ISO 8601 string
+ */
+function toIsoDate(value?: TagValue, offset?: TagValue): string | undefined {
+    if (typeof value !== 'string') return undefined;
+    const match = value.match(/^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/);
+    if (!match) return undefined;
+    const [, year, month, day, hour, minute, second] = match;
+    return `${year}-${month}-${day}T${hour}:${minute}:${second}${typeof offset === 'string' ? offset : ''}`;
+}
+
+/**
+ * Convert GPS degrees/minutes/seconds to signed decimal degrees
+ */
+function toDecimalDegrees(value?: TagValue, ref?: TagValue): number | undefined {
+    if (!Array.isArray(value) || value.length < 3) return undefined;
+    const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+    return ref === 'S' || ref === 'W' ? -degrees : degrees;
+}
+
+/**
+ * Parse camera, capture time and GPS fields from a JPEG's EXIF block
+ */
+export function readExif(bytes: Uint8Array): ImageExifData | undefined {
+    const segment = findExifSegment(bytes);
+    if (!segment) return undefined;
+
+    try {
+        const { view, tiffStart, little, ifd0 } = openTiff(bytes, segment);
+        const exifPointer = ifd0.get(0x8769)?.value;
+        const gpsPointer = ifd0.get(0x8825)?.value;
+        const exifIfd = typeof exifPointer === 'number' ? readIfd(view, tiffStart, exifPointer, little) : new Map();
+        const gpsIfd = typeof gpsPointer === 'number' ? readIfd(view, tiffStart, gpsPointer, little) : new Map();
+
+        const text = (value?: TagValue) => (typeof value === 'string' && value ? value : undefined);
+        const number = (value?: TagValue) => (typeof value === 'number' ? value : undefined);
+
+        const data: ImageExifData = {
+            make: text(ifd0.get(0x010f)?.value),
+            model: text(ifd0.get(0x0110)?.value),
+            software: text(ifd0.get(0x0131)?.value),
+            orientation: number(ifd0.get(0x0112)?.value),
+            takenAt: toIsoDate(exifIfd.get(0x9003)?.value ?? ifd0.get(0x0132)?.value, exifIfd.get(0x9011)?.value),
+            lensModel: text(exifIfd.get(0xa434)?.value),
+            exposureTime: number(exifIfd.get(0x829a)?.value),
+            fNumber: number(exifIfd.get(0x829d)?.value),
+            iso: number(exifIfd.get(0x8827)?.value),
+            focalLength: number(exifIfd.get(0x920a)?.value)
+        };
+
+        const latitude = toDecimalDegrees(gpsIfd.get(2)?.value, gpsIfd.get(1)?.value);
+        const longitude = toDecimalDegrees(gpsIfd.get(4)?.value, gpsIfd.get(3)?.value);
+        if (latitude !== undefined && longitude !== undefined) {
+            const altitude = number(gpsIfd.get(6)?.value);
+            data.gps = {
+                latitude,
+                longitude,
+                ...(altitude !== undefined && { altitude: gpsIfd.get(5)?.value === 1 ? -altitude : altitude })
+            };
+        }
+
+        // Drop empty fields
+        (Object.keys(data) as (keyof ImageExifData)[]).forEach(key => data[key] === undefined && delete data[key]);
+        return data;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read only the EXIF orientation (1-8, 1 when missing)
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+    const segment = findExifSegment(bytes);
+    if (!segment) return 1;
+
+    try {
+        const orientation = openTiff(bytes, segment).ifd0.get(0x0112)?.value;
+        return typeof orientation === 'number' && orientation >= 1 && orientation <= 8 ? orientation : 1;
+    } catch {
+        return 1;
+    }
+}
+
+/**
+ * Remove EXIF/XMP, IPTC and comment segments from a JPEG without re-encoding it
+ */
+export function stripJpegMetadata(bytes: Uint8Array): Uint8Array {
+    if (!isJpeg(bytes)) return bytes;
+
+    const { segments, dataStart } = readJpegSegments(bytes);
+    const kept = segments.filter(segment => !METADATA_MARKERS.includes(segment.marker));
+    const parts = [bytes.subarray(0, 2), ...kept.map(segment => bytes.subarray(segment.start, segment.end)), bytes.subarray(dataStart)];
+
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+}
+
+/**
+ * Copy the EXIF block of one JPEG into another (e.g. after canvas re-encoding).
+ * Orientation is reset to 1 because the pixels are already upright.
+ */
+export function copyJpegExif(source: Uint8Array, target: Uint8Array): Uint8Array {
+    const segment = findExifSegment(source);
+    if (!segment || !isJpeg(target)) return target;
+
+    const exif = source.slice(segment.start, segment.end);
+    try {
+        const { view, ifd0, little } = openTiff(exif, { marker: MARKER_APP1, start: 0, end: exif.length });
+        const orientation = ifd0.get(0x0112);
+        if (orientation && orientation.type === 3) {
+            view.setUint16(orientation.valueOffset, 1, little);
+        }
+    } catch {
+        // Keep the block as-is if it can't be parsed
+    }
+
+    // Place the EXIF block right after SOI and the JFIF APP0 segment if present
+    const { segments } = readJpegSegments(target);
+    const insertAt = segments[0]?.marker === 0xe0 ? segments[0].end : 2;
+
+    const result = new Uint8Array(target.length + exif.length);
+    result.set(target.subarray(0, insertAt), 0);
+    result.set(exif, insertAt);
+    result.set(target.subarray(insertAt), insertAt + exif.length);
+    return result;
+}
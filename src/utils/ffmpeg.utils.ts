@@ -0,0 +1,125 @@
+import type { FFmpeg } from '@ffmpeg/ffmpeg';
+import { abortable, createAbortError, throwIfAborted } from './abort.utils';
+
+/**
+ * ffmpeg-core loading configuration (defaults to the unpkg build shipped with @ffmpeg/ffmpeg)
+ */
+export interface FFmpegConfig {
+    coreURL?: string;
+    wasmURL?: string;
+    workerURL?: string;
+    classWorkerURL?: string;
+}
+
+export interface FFmpegJob {
+    input: File;
+    outputName: string;
+    outputMimeType: string;
+    args: string[];        // Arguments placed between the input and the output file
+    inputArgs?: string[];  // Arguments placed before -i (e.g. -ss for fast seeking)
+    duration?: number;     // Expected output duration (seconds), used to compute progress
+    onProgress?: (ratio: number) => void;
+    signal?: AbortSignal;  // Terminates the running command (the instance is reloaded for the next job)
+}
+
+let ffmpegConfig: FFmpegConfig = {};
+let ffmpegInstance: Promise<FFmpeg> | null = null;
+let jobQueue: Promise<unknown> = Promise.resolve();
+
+/**
+ * Override where ffmpeg-core is loaded from (self-hosting, CSP, offline builds)
+ */
+export function configureFFmpeg(config: FFmpegConfig): void {
+    ffmpegConfig = { ...config };
+    ffmpegInstance = null;
+}
+
+/**
+ * Load ffmpeg.wasm once and share the instance between jobs. The package is imported on first use,
+ * so server rendering and apps that never touch video don't load it.
+ */
+async function getFFmpeg(): Promise<FFmpeg> {
+    if (!ffmpegInstance) {
+        ffmpegInstance = (async () => {
+            const { FFmpeg } = await import('@ffmpeg/ffmpeg');
+            const ffmpeg = new FFmpeg();
+            await ffmpeg.load(ffmpegConfig);
+            return ffmpeg;
+        })();
+
+        // Allow a later call to retry if loading failed
+        ffmpegInstance.catch(() => {
+            ffmpegInstance = null;
+        });
+    }
+
+    return ffmpegInstance;
+}
+
+/**
+ * Map a 0-100 quality value onto an encoder scale where lower numbers mean better quality
+ */
+export function qualityToScale(quality: number, best: number, worst: number): number {
+    const clamped = Math.min(100, Math.max(0, quality));
+    return Math.round(best + ((100 - clamped) / 100) * (worst - best));
+}
+
+/**
+ * Run a single ffmpeg job and return the output as a File
+ */
+async function executeFFmpegJob(job: FFmpegJob): Promise<File> {
+    throwIfAborted(job.signal);
+    const ffmpeg = await abortable(getFFmpeg(), job.signal);
+    const inputName = `input_${Date.now()}${job.input.name.match(/\.[^.]+$/)?.[0] || ''}`;
+    const outputName = `output_${Date.now()}${job.outputName.match(/\.[^.]+$/)?.[0] || ''}`;
+
+    // ffmpeg's own progress ratio is relative to the whole input, so prefer the encoded time
+    const handleProgress = ({ progress, time }: { progress: number; time: number }) => {
+        const ratio = job.duration ? time / 1000000 / job.duration : progress;
+        job.onProgress?.(Math.min(1, Math.max(0, ratio)));
+    };
+
+    // A running exec can't be interrupted, the whole worker has to go
+    const handleAbort = () => {
+        ffmpeg.terminate();
+        ffmpegInstance = null;
+    };
+
+    ffmpeg.on('progress', handleProgress);
+    job.signal?.addEventListener('abort', handleAbort, { once: true });
+    try {
+        await ffmpeg.writeFile(inputName, new Uint8Array(await job.input.arrayBuffer()));
+
+        const exitCode = await ffmpeg.exec([
+            ...(job.inputArgs || []),
+            '-i', inputName,
+            ...job.args,
+            outputName
+        ]);
+        if (exitCode !== 0) {
+            throw new Error(`ffmpeg exited with code ${exitCode}`);
+        }
+
+        const data = await ffmpeg.readFile(outputName);
+        const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+        job.onProgress?.(1);
+
+        return new File([bytes], job.outputName, { type: job.outputMimeType });
+    } catch (error) {
+        throw job.signal?.aborted ? createAbortError() : error;
+    } finally {
+        job.signal?.removeEventListener('abort', handleAbort);
+        ffmpeg.off('progress', handleProgress);
+        await ffmpeg.deleteFile(inputName).catch(() => undefined);
+        await ffmpeg.deleteFile(outputName).catch(() => undefined);
+    }
+}
+
+/**
+ * Queue an ffmpeg job; the wasm instance can only run one command at a time
+ */
+export function runFFmpeg(job: FFmpegJob): Promise<File> {
+    const result = jobQueue.then(() => executeFFmpegJob(job));
+    jobQueue = result.catch(() => undefined);
+    return result;
+}
@@ -0,0 +1,81 @@
+import { FileError } from '../types/common';
+import { MediaHelperLocale } from '../types/i18n';
+import { en } from '../i18n/en';
+import { tr } from '../i18n/tr';
+
+/**
+ * Bundled locales, pass one of the keys or a full MediaHelperLocale to the components
+ */
+export const locales = { en, tr };
+
+export type LocaleName = keyof typeof locales;
+
+const BYTE_UNITS = ['B', 'KB', 'MB', 'GB', 'TB'];
+
+/**
+ * Resolve a locale name or bundle, English when omitted or unknown
+ */
+export function resolveLocale(locale?: LocaleName | MediaHelperLocale): MediaHelperLocale {
+    if (!locale) return en;
+    if (typeof locale === 'string') return locales[locale] || en;
+    return locale;
+}
+
+function formatNumber(value: number, code: string, maximumFractionDigits = 2): string {
+    try {
+        return new Intl.NumberFormat(code, { maximumFractionDigits }).format(value);
+    } catch {
+        // Unknown language tag
+        return String(Number(value.toFixed(maximumFractionDigits)));
+    }
+}
+
+/**
+ * Human readable size with the locale's decimal separator (e.g. "1.5 MB", "1,5 MB")
+ */
+export function formatBytes(bytes: number, code = 'en'): string {
+    let value = bytes;
+    let unit = 0;
+    while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+        value /= 1024;
+        unit++;
+    }
+    return `${formatNumber(value, code, unit === 0 ? 0 : value < 10 ? 2 : 1)} ${BYTE_UNITS[unit]}`;
+}
+
+/**
+ * Fill {param}, {param:bytes} and {param:number} placeholders, unknown params are left as they are
+ */
+export function formatMessage(template: string, params: Record<string, string | number> = {}, code = 'en'): string {
+    return template.replace(/\{(\w+)(?::(bytes|number))?\}/g, (placeholder, name: string, format?: string) => {
+        const value = params[name];
+        if (value === undefined) return placeholder;
+        if (typeof value !== 'number' || !format) return String(value);
+        return format === 'bytes' ? formatBytes(value, code) : formatNumber(value, code);
+    });
+}
+
+/**
+ * Message of a FileError in the given locale, falls back to the original message
+ * for codes the bundle doesn't know (English) or to the bundle's generic error
+ */
+export function formatFileError(error: FileError, locale?: LocaleName | MediaHelperLocale): string {
+    const bundle = resolveLocale(locale);
+    const template = bundle.errors[error.errorCode];
+    if (!template) {
+        return bundle.code === 'en' ? error.message : bundle.unknownError;
+    }
+    return formatMessage(template, { fileName: error.fileName, ...error.params }, bundle.code);
+}
+
+/**
+ * FileError with its English message built from the bundle, so messages and params never drift apart
+ */
+export function createFileError(fileName: string, errorCode: string, params?: Record<string, string | number>): FileError {
+    return {
+        fileName,
+        errorCode,
+        message: formatMessage(en.errors[errorCode] || en.unknownError, params),
+        ...(params && { params })
+    };
+}
@@ -0,0 +1,10 @@
+let nextId = 0;
+
+/**
+ * Unique id for a file in a selection, used as ProgressInfo.fileId and result id
+ */
+export function createFileId(): string {
+    return typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `media-${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+}
@@ -0,0 +1,270 @@
+import sharp from 'sharp';
+import { ProcessedFile, UnProcessedFile, ExportedFile } from '../types/common';
+import { ImageRuleInfo, ImageResizeOptions } from '../types/image';
+import { validateImageDimensions } from './validation.utils';
+import { computeResizeGeometry, ResizeGeometry } from './resize.utils';
+import { isJpeg, containsExif, readExif, stripJpegMetadata } from './exif.utils';
+
+/**
+ * Wrap an encoded buffer as ExportedFile (no object URLs on the server)
+ */
+export function toServerExportedFile(
+    buffer: Buffer,
+    name: string,
+    type: string,
+    mimeType: string,
+    rules?: ImageRuleInfo
+): ExportedFile {
+    const exported: ExportedFile = {
+        name,
+        size: buffer.length,
+        type,
+        extension: '.' + name.split('.').pop()!.toLowerCase(),
+        mimeType,
+        file: new File([buffer], name, { type: mimeType })
+    };
+
+    if (rules?.willGenerateBase64) {
+        exported.base64 = `data:${mimeType};base64,${buffer.toString('base64')}`;
+    }
+
+    if (rules?.willGenerateBlob) {
+        exported.blob = new Blob([buffer], { type: mimeType });
+    }
+
+    return exported;
+}
+
+/**
+ * Auto-orient, crop, resize and encode with sharp using the shared resize geometry
+ */
+async function renderImage(
+    buffer: Buffer,
+    geometry: ResizeGeometry,
+    format: 'jpeg' | 'png' | 'webp' | 'avif',
+    quality: number,
+    background?: string,
+    keepMetadata = false
+): Promise<Buffer> {
+    const fill = background || (format === 'jpeg' ? '#ffffff' : { r: 0, g: 0, b: 0, alpha: 0 });
+    const left = Math.round(geometry.dx);
+    const top = Math.round(geometry.dy);
+
+    let pipeline = sharp(buffer)
+        .rotate()
+        .extract({
+            left: Math.round(geometry.sx),
+            top: Math.round(geometry.sy),
+            width: Math.round(geometry.sw),
+            height: Math.round(geometry.sh)
+        })
+        .resize(Math.round(geometry.dw), Math.round(geometry.dh), { fit: 'fill' })
+        .extend({
+            top,
+            left,
+            bottom: Math.round(geometry.height) - Math.round(geometry.dh) - top,
+            right: Math.round(geometry.width) - Math.round(geometry.dw) - left,
+            background: fill
+        });
+
+    // JPEG has no alpha, transparent areas would turn black
+    if (format === 'jpeg') {
+        pipeline = pipeline.flatten({ background: background || '#ffffff' });
+    }
+
+    // sharp drops metadata by default, keepExif() writes it back with orientation reset
+    if (keepMetadata) {
+        pipeline = pipeline.keepExif();
+    }
+
+    return pipeline.toFormat(format, { quality }).toBuffer();
+}
+
+/**
+ * Generate thumbnail for image with sharp
+ */
+async function generateImageThumbnail(
+    buffer: Buffer,
+    fileName: string,
+    width: number,
+    height: number,
+    rules?: ImageRuleInfo
+): Promise<ExportedFile> {
+    // Default thumbnail: fit inside 800x800
+    const resize = rules?.thumbnailResize || { maxWidth: 800, maxHeight: 800, fit: 'inside' };
+    const format = rules?.thumbnailFormat || 'webp';
+    const quality = rules?.thumbnailCompressQuality || 75;
+
+    const geometry = computeResizeGeometry(width, height, resize);
+    const thumbBuffer = await renderImage(buffer, geometry, format, quality, resize.background);
+
+    const thumbName = `thumb_${fileName.replace(/\.[^.]+$/, '')}.${format}`;
+    return {
+        ...toServerExportedFile(thumbBuffer, thumbName, 'image', `image/${format}`),
+        width: geometry.width,
+        height: geometry.height
+    };
+}
+
+/**
+ * Generate the named renditions declared in rules.variants
+ */
+async function generateImageVariants(
+    buffer: Buffer,
+    fileName: string,
+    width: number,
+    height: number,
+    rules: ImageRuleInfo
+): Promise<Record<string, ExportedFile>> {
+    const variants: Record<string, ExportedFile> = {};
+    const baseName = fileName.replace(/\.[^.]+$/, '');
+
+    for (const variant of rules.variants || []) {
+        const resize: ImageResizeOptions = {
+            ...rules.resize,
+            maxWidth: variant.width,
+            maxHeight: variant.height,
+            fit: variant.fit || 'inside'
+        };
+        const geometry = computeResizeGeometry(width, height, resize);
+        const format = variant.format || rules.processedFormat || 'webp';
+        const quality = variant.quality || rules.processedCompressQuality || 80;
+
+        const variantBuffer = await renderImage(buffer, geometry, format, quality, resize.background);
+        variants[variant.name] = {
+            ...toServerExportedFile(variantBuffer, `${baseName}_${variant.name}.${format}`, 'image', `image/${format}`),
+            width: geometry.width,
+            height: geometry.height
+        };
+    }
+
+    return variants;
+}
+
+/**
+ * Compress image with sharp (resized/cropped when rules.resize is set)
+ */
+async function compressImage(
+    buffer: Buffer,
+    width: number,
+    height: number,
+    rules?: ImageRuleInfo
+): Promise<{ buffer: Buffer; format: string }> {
+    const format = rules?.processedFormat || 'webp';
+    const quality = rules?.processedCompressQuality || 80;
+
+    const compressed = await renderImage(
+        buffer,
+        computeResizeGeometry(width, height, rules?.resize),
+        format,
+        quality,
+        rules?.resize?.background,
+        rules?.metadata === 'keep'
+    );
+
+    return { buffer: compressed, format };
+}
+
+/**
+ * Process image buffer on the server (Route Handlers, Server Actions)
+ */
+export async function processImageBuffer(
+    buffer: Buffer,
+    file: File,
+    rules?: ImageRuleInfo
+): Promise<ProcessedFile | UnProcessedFile> {
+    const extension = '.' + file.name.split('.').pop()!.toLowerCase();
+    const meta: ProcessedFile['meta'] = {
+        name: file.name,
+        size: file.size,
+        type: 'image',
+        extension,
+        mimeType: file.type
+    };
+
+    try {
+        // Make sure sharp can decode the image before doing any work
+        const metadata = await sharp(buffer).metadata();
+
+        // EXIF orientations 5-8 are rotated by 90°, report the displayed size
+        const rotated = (metadata.orientation || 1) >= 5;
+        const width = (rotated ? metadata.height : metadata.width) || 0;
+        const height = (rotated ? metadata.width : metadata.height) || 0;
+        meta.width = width;
+        meta.height = height;
+
+        const dimensionError = validateImageDimensions(file.name, width, height, rules);
+        if (dimensionError) {
+            return {
+                processType: 'unprocessed',
+                meta,
+                originalFile: file,
+                reason: dimensionError
+            };
+        }
+
+        // sharp output has no EXIF, the original is re-encoded when it carries metadata we can't strip in place
+        const metadataRule = rules?.metadata || 'strip';
+        const bytes = new Uint8Array(buffer.buffer, buffer.byteOffset, buffer.length);
+        const sourceIsJpeg = isJpeg(bytes);
+        const hasExif = !!metadata.exif || containsExif(bytes.subarray(0, 128 * 1024));
+        // Stripping an oriented JPEG in place would leave it sideways
+        const mustReencode = metadataRule !== 'keep' && hasExif && (!sourceIsJpeg || (metadata.orientation || 1) > 1);
+
+        // Compress if needed
+        let processed: ExportedFile;
+        // HEIC can't be displayed outside Safari, always convert it
+        const transcode = metadata.compression === 'hevc';
+        if ((rules?.processedCompressQuality && rules.processedCompressQuality < 100) || rules?.resize || mustReencode || transcode) {
+            const compressed = await compressImage(buffer, width, height, rules);
+            const name = file.name.replace(/\.[^.]+$/, '') + '.' + compressed.format;
+            const output = computeResizeGeometry(width, height, rules?.resize);
+            processed = {
+                ...toServerExportedFile(compressed.buffer, name, 'image', `image/${compressed.format}`, rules),
+                width: output.width,
+                height: output.height
+            };
+        } else if (metadataRule !== 'keep' && sourceIsJpeg && hasExif) {
+            // Remove EXIF/GPS segments without re-encoding
+            const stripped = Buffer.from(stripJpegMetadata(bytes));
+            processed = { ...toServerExportedFile(stripped, file.name, 'image', file.type, rules), width, height };
+        } else {
+            processed = { ...toServerExportedFile(buffer, file.name, 'image', file.type, rules), width, height };
+        }
+
+        const thumbnail = await generateImageThumbnail(buffer, file.name, width, height, rules);
+
+        // Variants have no object URLs on the server, build a srcset with buildSrcSet after uploading
+        let variants: Record<string, ExportedFile> | undefined;
+        if (rules?.variants && rules.variants.length > 0) {
+            variants = await generateImageVariants(buffer, file.name, width, height, rules);
+        }
+
+        const exif = metadataRule === 'extract' ? readExif(bytes) : undefined;
+
+        return {
+            processType: 'processed',
+            meta,
+            originalFile: file,
+            processed,
+            thumbnail,
+            ...(variants && { variants }),
+            ...(exif && { exif })
+        };
+    } catch (error) {
+        // Prebuilt sharp binaries ship libheif with AVIF only, HEVC-encoded HEIC needs a custom libvips
+        const heic = /\.(heic|heif)$/i.test(file.name) || /^image\/hei[cf]/.test(file.type);
+        return {
+            processType: 'unprocessed',
+            meta,
+            originalFile: file,
+            reason: {
+                fileName: file.name,
+                errorCode: 'image-processing-error',
+                message: heic
+                    ? 'HEIC/HEIF decoding is not supported by this sharp build, install sharp with a global libvips that includes libheif HEVC support'
+                    : error instanceof Error ? error.message : 'Failed to process image'
+            }
+        };
+    }
+}
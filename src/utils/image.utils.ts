@@ -1,101 +1,382 @@
-import { ProcessedFile, UnProcessedFile, ExportedFile, ProgressCallback } from '../types/common';
-import { ImageRuleInfo } from '../types/image';
+import { ProcessedFile, UnProcessedFile, ExportedFile, ProcessingContext } from '../types/common';
+import { ImageRuleInfo, ImageResizeOptions, ImageCropArea } from '../types/image';
+import { validateImageDimensions } from './validation.utils';
+import { computeResizeGeometry, ResizeGeometry } from './resize.utils';
+import { buildSrcSet } from './srcset.utils';
+import { isJpeg, containsExif, readExif, readExifOrientation, stripJpegMetadata, copyJpegExif } from './exif.utils';
+import { abortable, createAbortedResult, isAbortError, throwIfAborted } from './abort.utils';
+import { revokeFileUrls } from './url.utils';
+import { canUseImageWorker, renderInWorker } from './worker.utils';
+import { FileProgressCallback } from './progress.utils';
+
+// EXIF lives in an APP1 segment near the start of the file (max 64KB)
+const EXIF_HEADER_SIZE = 128 * 1024;
+
+// 2x1 JPEG with EXIF orientation 6, decodes as 1x2 when the browser applies orientation itself
+const ORIENTATION_TEST_IMAGE = 'data:image/jpeg;base64,/9j/4QAiRXhpZgAATU0AKgAAAAgAAQESAAMAAAABAAYAAAAAAAD/2wCEAAEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQEBAQH/wAARCAABAAIDASIAAhEBAxEB/8QASwABAQAAAAAAAAAAAAAAAAAAAAsBAQAAAAAAAAAAAAAAAAAAAAAQAQAAAAAAAAAAAAAAAAAAAAARAQAAAAAAAAAAAAAAAAAAAAD/2gAMAwEAAhEDEQA/AL+AD//Z';
+
+// iPhone photos, only Safari decodes them natively
+const HEIC_MIME_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+let autoOrientationSupport: Promise<boolean> | null = null;
+
+type ImageFormat = ImageRuleInfo['processedFormat'];
+
+/**
+ * Decoded, upright image ready to be drawn on a canvas
+ */
+export interface DecodedImage {
+    source: CanvasImageSource;
+    width: number;
+    height: number;
+    transcoded: boolean; // Decoded through a converter, the original can't be displayed as-is
+    bitmap?: ImageBitmap; // Copy sent to the encoding worker (set when workers are used)
+}
+
+/**
+ * Decode image file into an HTMLImageElement
+ */
+function loadImage(file: File): Promise<HTMLImageElement> {
+    return new Promise((resolve, reject) => {
+        const img = new Image();
+        const url = URL.createObjectURL(file);
+
+        img.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(img);
+        };
+
+        img.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error(`Failed to decode image: ${file.name}`));
+        };
+
+        img.src = url;
+    });
+}
+
+/**
+ * Check whether the browser already applies EXIF orientation when decoding images
+ */
+function browserAppliesExifOrientation(): Promise<boolean> {
+    if (!autoOrientationSupport) {
+        autoOrientationSupport = new Promise((resolve) => {
+            const img = new Image();
+            img.onload = () => resolve(img.naturalWidth === 1 && img.naturalHeight === 2);
+            img.onerror = () => resolve(true);
+            img.src = ORIENTATION_TEST_IMAGE;
+        });
+    }
+    return autoOrientationSupport;
+}
+
+/**
+ * Draw the image upright according to its EXIF orientation
+ */
+function applyExifOrientation(img: HTMLImageElement, orientation: number): HTMLCanvasElement {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    const width = img.naturalWidth;
+    const height = img.naturalHeight;
+
+    // Orientations 5-8 are rotated by 90°
+    canvas.width = orientation >= 5 ? height : width;
+    canvas.height = orientation >= 5 ? width : height;
+
+    if (ctx) {
+        switch (orientation) {
+            case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+            case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+            case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+            case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+            case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+            case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+            case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+        }
+        ctx.drawImage(img, 0, 0);
+    }
+
+    return canvas;
+}
+
+/**
+ * Check for HEIC/HEIF by MIME type or extension
+ */
+function isHeic(file: File): boolean {
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+    return HEIC_MIME_TYPES.includes(file.type.toLowerCase()) || ['heic', 'heif'].includes(extension);
+}
+
+/**
+ * Convert HEIC/HEIF to PNG with heic2any (libheif compiled to WebAssembly)
+ */
+async function convertHeic(file: File): Promise<File> {
+    try {
+        const { default: heic2any } = await import('heic2any');
+        const result = await heic2any({ blob: file, toType: 'image/png' });
+        // Image sequences (live photos, bursts) return the first frame
+        const blob = Array.isArray(result) ? result[0] : result;
+        return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.png', { type: 'image/png' });
+    } catch {
+        throw new Error(`Failed to decode HEIC/HEIF image: ${file.name}`);
+    }
+}
+
+/**
+ * Decode image file upright, rotating manually in browsers that ignore EXIF orientation
+ */
+async function decodeImage(file: File, header: Uint8Array): Promise<DecodedImage> {
+    let img: HTMLImageElement;
+    let transcoded = false;
+
+    try {
+        img = await loadImage(file);
+    } catch (error) {
+        // Safari decodes HEIC natively, other browsers need the converter
+        if (!isHeic(file)) throw error;
+        img = await loadImage(await convertHeic(file));
+        transcoded = true;
+    }
+
+    // libheif applies the HEIF rotation itself, EXIF orientation only matters for JPEG
+    const orientation = transcoded ? 1 : readExifOrientation(header);
+
+    if (orientation > 1 && !(await browserAppliesExifOrientation())) {
+        const canvas = applyExifOrientation(img, orientation);
+        return { source: canvas, width: canvas.width, height: canvas.height, transcoded };
+    }
+
+    return { source: img, width: img.naturalWidth, height: img.naturalHeight, transcoded };
+}
+
+/**
+ * Decode an image file upright, reading its EXIF header first
+ */
+export async function decodeImageFile(file: File): Promise<DecodedImage> {
+    const header = new Uint8Array(await file.slice(0, EXIF_HEADER_SIZE).arrayBuffer());
+    return decodeImage(file, header);
+}
+
+/**
+ * Cut a rotated crop out of a decoded image at full resolution.
+ * The result is encoded near-lossless, it is meant to go through processImageFile afterwards.
+ */
+export async function cropImage(image: DecodedImage, area: ImageCropArea, file: File): Promise<File> {
+    const quarterTurn = area.rotation === 90 || area.rotation === 270;
+    const rotatedWidth = quarterTurn ? image.height : image.width;
+    const rotatedHeight = quarterTurn ? image.width : image.height;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(area.width));
+    canvas.height = Math.max(1, Math.round(area.height));
+
+    const ctx = canvas.getContext('2d');
+    if (ctx) {
+        ctx.imageSmoothingQuality = 'high';
+        // Move the crop to the origin, then rotate the image around its own center
+        ctx.translate(-area.x, -area.y);
+        ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+        ctx.rotate((area.rotation * Math.PI) / 180);
+        ctx.drawImage(image.source, -image.width / 2, -image.height / 2);
+    }
+
+    // Keep the source format when the canvas can write it, PNG otherwise (HEIC, GIF, BMP...)
+    const mimeType = ['image/jpeg', 'image/png', 'image/webp'].includes(file.type) && !image.transcoded
+        ? file.type
+        : 'image/png';
+    const blob = await canvasToBlob(canvas, mimeType, 1);
+    if (!blob) {
+        throw new Error(`Failed to crop image: ${file.name}`);
+    }
+
+    const extension = blob.type === 'image/jpeg' ? 'jpg' : blob.type.replace('image/', '');
+    const name = file.name.replace(/\.[^.]+$/, '') + '.' + extension;
+    return new File([blob], name, { type: blob.type, lastModified: Date.now() });
+}
+
+/**
+ * Encode the canvas, resolves null when the browser can't
+ */
+function canvasToBlob(canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob | null> {
+    return new Promise((resolve) => canvas.toBlob(resolve, mimeType, quality));
+}
+
+/**
+ * Draw the image with the given geometry and encode it.
+ * Browsers that can't encode a format (mostly AVIF) silently return PNG, the fallback format is used then.
+ */
+async function renderImage(
+    image: DecodedImage,
+    geometry: ResizeGeometry,
+    format: ImageFormat,
+    quality: number,
+    background?: string,
+    fallbackFormat: ImageFormat = 'webp'
+): Promise<{ blob: Blob; format: ImageFormat }> {
+    // JPEG has no alpha, letterbox areas would turn black
+    const fill = background || (format === 'jpeg' || (format === 'avif' && fallbackFormat === 'jpeg') ? '#ffffff' : undefined);
+
+    if (image.bitmap) {
+        const blob = await renderInWorker({
+            bitmap: image.bitmap,
+            geometry,
+            mimeType: `image/${format}`,
+            fallbackMimeType: `image/${fallbackFormat}`,
+            quality,
+            fill
+        });
+        if (blob) {
+            return { blob, format: blob.type.replace('image/', '') as ImageFormat };
+        }
+    }
+
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    canvas.width = geometry.width;
+    canvas.height = geometry.height;
+
+    if (ctx) {
+        if (fill) {
+            ctx.fillStyle = fill;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        ctx.imageSmoothingQuality = 'high';
+        ctx.drawImage(
+            image.source,
+            geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+            geometry.dx, geometry.dy, geometry.dw, geometry.dh
+        );
+    }
+
+    const blob = await canvasToBlob(canvas, `image/${format}`, quality);
+    if (blob && blob.type === `image/${format}`) {
+        return { blob, format };
+    }
+
+    const fallback = await canvasToBlob(canvas, `image/${fallbackFormat}`, quality);
+    if (!fallback) {
+        throw new Error('Failed to encode image');
+    }
+    return { blob: fallback, format: fallback.type.replace('image/', '') as ImageFormat };
+}
 
 /**
  * Generate thumbnail for image
  */
 async function generateImageThumbnail(
     file: File,
+    image: DecodedImage,
     rules?: ImageRuleInfo
 ): Promise<ExportedFile> {
-    return new Promise((resolve) => {
-        const img = new Image();
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
-
-        img.onload = () => {
-            // Set thumbnail size (max 200px)
-            const maxSize = 800;
-            let width = img.width;
-            let height = img.height;
-
-            if (width > height) {
-                if (width > maxSize) {
-                    height = (height * maxSize) / width;
-                    width = maxSize;
-                }
-            } else {
-                if (height > maxSize) {
-                    width = (width * maxSize) / height;
-                    height = maxSize;
-                }
-            }
+    // Default thumbnail: fit inside 800x800
+    const resize = rules?.thumbnailResize || { maxWidth: 800, maxHeight: 800, fit: 'inside' };
+    const geometry = computeResizeGeometry(image.width, image.height, resize);
 
-            canvas.width = width;
-            canvas.height = height;
-            ctx?.drawImage(img, 0, 0, width, height);
-
-            // Convert to specified format
-            const format = rules?.thumbnailFormat || 'webp';
-            const quality = (rules?.thumbnailCompressQuality || 75) / 100;
-
-            canvas.toBlob((blob) => {
-                if (blob) {
-                    const thumbFile = new File([blob], `thumb_${file.name}`, {
-                        type: `image/${format}`
-                    });
-
-                    resolve({
-                        name: thumbFile.name,
-                        size: blob.size,
-                        type: 'image',
-                        extension: `.${format}`,
-                        mimeType: `image/${format}`,
-                        file: thumbFile,
-                        url: URL.createObjectURL(blob)
-                    });
-                }
-            }, `image/${format}`, quality);
-        };
+    // Convert to specified format
+    const quality = (rules?.thumbnailCompressQuality || 75) / 100;
 
-        img.src = URL.createObjectURL(file);
+    const { blob, format } = await renderImage(
+        image,
+        geometry,
+        rules?.thumbnailFormat || 'webp',
+        quality,
+        resize.background,
+        rules?.avifFallbackFormat
+    );
+    const thumbFile = new File([blob], `thumb_${file.name}`, {
+        type: `image/${format}`
     });
+
+    return {
+        name: thumbFile.name,
+        size: blob.size,
+        type: 'image',
+        extension: `.${format}`,
+        mimeType: `image/${format}`,
+        width: geometry.width,
+        height: geometry.height,
+        file: thumbFile,
+        url: URL.createObjectURL(blob)
+    };
 }
 
 /**
- * Compress image file
+ * Compress image file (resized/cropped when rules.resize is set)
  */
 async function compressImage(
     file: File,
+    image: DecodedImage,
     rules?: ImageRuleInfo
 ): Promise<File> {
-    return new Promise((resolve) => {
-        const img = new Image();
-        const canvas = document.createElement('canvas');
-        const ctx = canvas.getContext('2d');
+    const geometry = computeResizeGeometry(image.width, image.height, rules?.resize);
+    const quality = (rules?.processedCompressQuality || 80) / 100;
 
-        img.onload = () => {
-            canvas.width = img.width;
-            canvas.height = img.height;
-            ctx?.drawImage(img, 0, 0);
-
-            const format = rules?.processedFormat || 'webp';
-            const quality = (rules?.processedCompressQuality || 80) / 100;
-
-            canvas.toBlob((blob) => {
-                if (blob) {
-                    const compressedFile = new File([blob], file.name, {
-                        type: `image/${format}`
-                    });
-                    resolve(compressedFile);
-                } else {
-                    resolve(file);
-                }
-            }, `image/${format}`, quality);
+    const { blob, format } = await renderImage(
+        image,
+        geometry,
+        rules?.processedFormat || 'webp',
+        quality,
+        rules?.resize?.background,
+        rules?.avifFallbackFormat
+    );
+    return new File([blob], file.name.replace(/\.[^.]+$/, '') + '.' + format, {
+        type: `image/${format}`
+    });
+}
+
+/**
+ * Generate the named renditions declared in rules.variants
+ */
+async function generateImageVariants(
+    file: File,
+    image: DecodedImage,
+    rules: ImageRuleInfo,
+    signal?: AbortSignal
+): Promise<Record<string, ExportedFile>> {
+    const variants: Record<string, ExportedFile> = {};
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+
+    for (const variant of rules.variants || []) {
+        if (signal?.aborted) {
+            revokeFileUrls({ variants });
+            throwIfAborted(signal);
+        }
+
+        const resize: ImageResizeOptions = {
+            ...rules.resize,
+            maxWidth: variant.width,
+            maxHeight: variant.height,
+            fit: variant.fit || 'inside'
         };
+        const geometry = computeResizeGeometry(image.width, image.height, resize);
+        const quality = (variant.quality || rules.processedCompressQuality || 80) / 100;
 
-        img.src = URL.createObjectURL(file);
-    });
+        const { blob, format } = await renderImage(
+            image,
+            geometry,
+            variant.format || rules.processedFormat || 'webp',
+            quality,
+            resize.background,
+            rules.avifFallbackFormat
+        );
+        const variantFile = new File([blob], `${baseName}_${variant.name}.${format}`, {
+            type: `image/${format}`
+        });
+
+        variants[variant.name] = {
+            name: variantFile.name,
+            size: blob.size,
+            type: 'image',
+            extension: `.${format}`,
+            mimeType: `image/${format}`,
+            width: geometry.width,
+            height: geometry.height,
+            file: variantFile,
+            url: URL.createObjectURL(blob)
+        };
+    }
+
+    return variants;
 }
 
 /**
@@ -104,53 +385,89 @@ async function compressImage(
 export async function processImageFile(
     file: File,
     rules?: ImageRuleInfo,
-    onProgress?: ProgressCallback,
-    currentIndex?: number,
-    totalFiles?: number
+    onProgress?: FileProgressCallback,
+    context?: ProcessingContext
 ): Promise<ProcessedFile | UnProcessedFile> {
     const extension = '.' + file.name.split('.').pop()!.toLowerCase();
-    const meta = {
+    const meta: ProcessedFile['meta'] = {
         name: file.name,
         size: file.size,
         type: 'image',
         extension,
         mimeType: file.type
     };
+    const signal = context?.signal;
 
+    let processed: ExportedFile | undefined;
+    let thumbnail: ExportedFile | undefined;
+    let variants: Record<string, ExportedFile> | undefined;
+    let bitmap: ImageBitmap | undefined;
     try {
         // Progress: processing
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'processing',
-                percentage: Math.round(((currentIndex + 0.3) / totalFiles) * 100)
-            });
+        onProgress?.('processing', 0.3);
+
+        // Decode once to read dimensions, reused for compression and thumbnail
+        const header = new Uint8Array(await file.slice(0, EXIF_HEADER_SIZE).arrayBuffer());
+        const image = await abortable(decodeImage(file, header), signal);
+        meta.width = image.width;
+        meta.height = image.height;
+
+        // Encoding runs in a worker when possible, the main thread only decodes
+        if (context?.useWorker !== false && canUseImageWorker()) {
+            bitmap = image.bitmap = await createImageBitmap(image.source);
+        }
+
+        const dimensionError = validateImageDimensions(file.name, meta.width, meta.height, rules);
+        if (dimensionError) {
+            return {
+                processType: 'unprocessed',
+                meta,
+                originalFile: file,
+                reason: dimensionError
+            };
         }
 
+        throwIfAborted(signal);
+
+        // Canvas output has no EXIF, the original is re-encoded when it carries metadata we can't strip in place
+        const metadata = rules?.metadata || 'strip';
+        const sourceIsJpeg = isJpeg(header);
+        // Stripping an oriented JPEG in place would leave it sideways
+        const mustReencode = metadata !== 'keep' && containsExif(header) && (!sourceIsJpeg || readExifOrientation(header) > 1);
+
         // Compress if needed
         let processedFile = file;
-        if (rules?.processedCompressQuality && rules.processedCompressQuality < 100) {
-            if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-                onProgress({
-                    currentFile: currentIndex + 1,
-                    totalFiles,
-                    fileName: file.name,
-                    stage: 'compressing',
-                    percentage: Math.round(((currentIndex + 0.5) / totalFiles) * 100)
-                });
+        let reencoded = false;
+        // Formats the browser can't display (HEIC outside Safari) are always converted
+        if ((rules?.processedCompressQuality && rules.processedCompressQuality < 100) || rules?.resize || mustReencode || image.transcoded) {
+            onProgress?.('compressing', 0.5);
+            processedFile = await compressImage(file, image, rules);
+            reencoded = true;
+
+            if (metadata === 'keep' && sourceIsJpeg && processedFile.type === 'image/jpeg') {
+                const source = new Uint8Array(await file.arrayBuffer());
+                const target = new Uint8Array(await processedFile.arrayBuffer());
+                processedFile = new File([copyJpegExif(source, target)], processedFile.name, { type: processedFile.type });
             }
-            processedFile = await compressImage(file, rules);
+        } else if (metadata !== 'keep' && sourceIsJpeg && containsExif(header)) {
+            // Remove EXIF/GPS segments without re-encoding
+            const stripped = stripJpegMetadata(new Uint8Array(await file.arrayBuffer()));
+            processedFile = new File([stripped], file.name, { type: file.type, lastModified: file.lastModified });
         }
 
         // Create processed object
-        const processed: ExportedFile = {
+        const outputSize = !reencoded
+            ? { width: image.width, height: image.height }
+            : computeResizeGeometry(image.width, image.height, rules?.resize);
+        throwIfAborted(signal);
+        processed = {
             name: processedFile.name,
             size: processedFile.size,
             type: 'image',
-            extension,
+            extension: '.' + processedFile.name.split('.').pop()!.toLowerCase(),
             mimeType: processedFile.type,
+            width: outputSize.width,
+            height: outputSize.height,
             file: processedFile,
             url: URL.createObjectURL(processedFile)
         };
@@ -170,37 +487,37 @@ export async function processImageFile(
         }
 
         // Generate thumbnail
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'generating-thumbnail',
-                percentage: Math.round(((currentIndex + 0.8) / totalFiles) * 100)
-            });
+        onProgress?.('generating-thumbnail', 0.8);
+
+        throwIfAborted(signal);
+        thumbnail = await generateImageThumbnail(file, image, rules);
+
+        // Generate responsive variants
+        if (rules?.variants && rules.variants.length > 0) {
+            throwIfAborted(signal);
+            variants = await generateImageVariants(file, image, rules, signal);
         }
 
-        const thumbnail = await generateImageThumbnail(file, rules);
+        const exif = metadata === 'extract' ? readExif(header) : undefined;
 
         // Progress: completed
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'completed',
-                percentage: Math.round(((currentIndex + 1) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('completed', 1);
 
         return {
             processType: 'processed',
             meta,
             originalFile: file,
             processed,
-            thumbnail
+            thumbnail,
+            ...(variants && { variants, srcSet: buildSrcSet(variants) }),
+            ...(exif && { exif })
         };
     } catch (error) {
+        if (isAbortError(error)) {
+            revokeFileUrls({ processed, thumbnail, variants });
+            return createAbortedResult(file, meta);
+        }
+
         return {
             processType: 'unprocessed',
             meta,
@@ -211,5 +528,7 @@ export async function processImageFile(
                 message: error instanceof Error ? error.message : 'Failed to process image'
             }
         };
+    } finally {
+        bitmap?.close();
     }
 }
\ No newline at end of file
@@ -0,0 +1,253 @@
+import { DocumentFormat, DocumentInfo } from '../types/document';
+import { readZipEntries, readZipText, ZipEntry } from './zip.utils';
+
+export type OfficeFormat = Exclude<DocumentFormat, 'pdf'>;
+
+/**
+ * Text of the first page, slide or sheet (or the first lines of a text file), drawn as the thumbnail
+ */
+export interface DocumentPreview {
+    layout: 'page' | 'slide' | 'sheet';
+    rows: string[][]; // One cell per row for pages and slides
+}
+
+export interface OfficeReadResult {
+    info: DocumentInfo;
+    preview?: DocumentPreview;
+}
+
+// Templates and macro-enabled variants share the layout of their base format
+const OFFICE_FORMATS: Record<string, OfficeFormat> = {
+    docx: 'docx', docm: 'docx', dotx: 'docx', dotm: 'docx',
+    xlsx: 'xlsx', xlsm: 'xlsx', xltx: 'xlsx', xltm: 'xlsx',
+    pptx: 'pptx', pptm: 'pptx', potx: 'pptx', potm: 'pptx', ppsx: 'pptx', ppsm: 'pptx',
+    odt: 'odt', ott: 'odt',
+    ods: 'ods', ots: 'ods',
+    odp: 'odp', otp: 'odp'
+};
+
+// Password-protected OOXML files are wrapped in a Compound File Binary container
+const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0];
+// Guards against zip bombs, real document parts are far smaller
+const MAX_PART_SIZE = 20 * 1024 * 1024;
+const PREVIEW_ROWS = 40;
+const PREVIEW_COLUMNS = 8;
+
+/**
+ * Office format of a file by extension (undefined for anything else, including legacy .doc/.xls/.ppt)
+ */
+export function getOfficeFormat(file: { name: string }): OfficeFormat | undefined {
+    return OFFICE_FORMATS[file.name.split('.').pop()?.toLowerCase() || ''];
+}
+
+function decodeXml(text: string): string {
+    return text
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) => String.fromCodePoint(parseInt(hex, 16)))
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function escapeTag(tag: string): string {
+    return tag.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Inner XML of every <tag> element (self-closing ones are skipped)
+ */
+function getElements(xml: string, tag: string): string[] {
+    const name = escapeTag(tag);
+    const pattern = new RegExp(`<${name}(?:\\s[^>]*)?(?<!/)>([\\s\\S]*?)</${name}>`, 'g');
+    return Array.from(xml.matchAll(pattern), match => match[1]);
+}
+
+function getElementText(xml: string, tag: string): string | undefined {
+    const [inner] = getElements(xml, tag);
+    const text = inner !== undefined ? decodeXml(inner.replace(/<[^>]+>/g, '')).trim() : '';
+    return text || undefined;
+}
+
+function getAttribute(xml: string, name: string): string | undefined {
+    return new RegExp(`\\s${escapeTag(name)}="([^"]*)"`).exec(xml)?.[1];
+}
+
+function toCount(value?: string): number | undefined {
+    const count = value !== undefined ? parseInt(value, 10) : NaN;
+    return isNaN(count) ? undefined : count;
+}
+
+/**
+ * Paragraphs of an OOXML part: text runs (w:t, a:t) joined per paragraph (w:p, a:p)
+ */
+function ooxmlParagraphs(xml: string, prefix: 'w' | 'a'): string[] {
+    return getElements(xml, `${prefix}:p`)
+        .map(paragraph => getElements(paragraph.replace(new RegExp(`<${prefix}:tab/>`, 'g'), `<${prefix}:t>\t</${prefix}:t>`), `${prefix}:t`)
+            .map(decodeXml)
+            .join(''))
+        .filter(text => text.trim());
+}
+
+/**
+ * Text of an OpenDocument element, keeping spaces, tabs and line breaks
+ */
+function odfText(xml: string): string {
+    return decodeXml(xml
+        .replace(/<text:s(?:\s+text:c="(\d+)")?\s*\/>/g, (_, count?: string) => ' '.repeat(count ? parseInt(count, 10) : 1))
+        .replace(/<text:tab\s*\/>/g, '\t')
+        .replace(/<text:line-break\s*\/>/g, '\n')
+        .replace(/<[^>]+>/g, ''));
+}
+
+function odfParagraphs(xml: string): string[] {
+    return Array.from(xml.matchAll(/<text:(p|h)(?:\s[^>]*)?(?<!\/)>([\s\S]*?)<\/text:\1>/g), match => odfText(match[2]))
+        .filter(text => text.trim());
+}
+
+export function toSnippet(lines: string[], length: number): string | undefined {
+    const text = lines.join(' ').replace(/\s+/g, ' ').trim();
+    if (!text) return undefined;
+    return text.length > length ? text.slice(0, length).trimEnd() + '…' : text;
+}
+
+function asRows(lines: string[]): string[][] {
+    return lines.slice(0, PREVIEW_ROWS).map(line => [line]);
+}
+
+/**
+ * Numeric order of parts like slide2.xml / sheet10.xml
+ */
+function partNumber(name: string): number {
+    return parseInt(/(\d+)\.xml$/.exec(name)?.[1] || '0', 10);
+}
+
+/**
+ * Rows of an xlsx worksheet, shared strings resolved
+ */
+function xlsxRows(sheetXml: string, sharedStrings: string[]): string[][] {
+    return getElements(sheetXml, 'row').slice(0, PREVIEW_ROWS).map(row =>
+        Array.from(row.matchAll(/<c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/c>)/g), ([, attributes, inner = '']) => {
+            const type = getAttribute(attributes, 't');
+            if (type === 's') return sharedStrings[parseInt(getElementText(inner, 'v') || '', 10)] ?? '';
+            if (type === 'inlineStr') return getElements(inner, 't').map(decodeXml).join('');
+            return getElementText(inner, 'v') ?? '';
+        }).slice(0, PREVIEW_COLUMNS)
+    );
+}
+
+/**
+ * Rows of the first table in an ods content.xml
+ */
+function odsRows(contentXml: string): string[][] {
+    const [table = ''] = getElements(contentXml, 'table:table');
+    return getElements(table, 'table:table-row').slice(0, PREVIEW_ROWS).map(row =>
+        Array.from(row.matchAll(/<table:table-cell\b[^>]*?(?:\/>|>([\s\S]*?)<\/table:table-cell>)/g), ([, inner = '']) => odfParagraphs(inner).join(' '))
+            .slice(0, PREVIEW_COLUMNS)
+    );
+}
+
+/**
+ * Read an OOXML (docx, xlsx, pptx) or OpenDocument (odt, ods, odp) file: properties, counts,
+ * a plain-text snippet, the text of the first page for the thumbnail and whether it has macros
+ */
+export async function readOfficeDocument(file: Blob, format: OfficeFormat, snippetLength = 500): Promise<OfficeReadResult> {
+    const signature = new Uint8Array(await file.slice(0, 4).arrayBuffer());
+    if (CFB_SIGNATURE.every((byte, index) => signature[index] === byte)) {
+        return { info: { format, encrypted: true, passwordProtected: true } };
+    }
+
+    const entries = await readZipEntries(file);
+    const byName = new Map(entries.map(entry => [entry.name, entry]));
+    const readPart = async (name: string): Promise<string> => {
+        const entry = byName.get(name);
+        return entry ? readZipText(file, entry, MAX_PART_SIZE) : '';
+    };
+    const sortedParts = (pattern: RegExp): ZipEntry[] => entries
+        .filter(entry => pattern.test(entry.name))
+        .sort((a, b) => partNumber(a.name) - partNumber(b.name));
+
+    const isOpenDocument = format.startsWith('od');
+    const hasMacros = isOpenDocument
+        // Library descriptors (script-lc.xml, script-lb.xml) exist without any macro
+        ? entries.some(entry => /^(Basic|Scripts)\/.+/.test(entry.name) && !/script-l[bc]\.xml$/.test(entry.name) && !entry.isDirectory)
+        : entries.some(entry => /(^|\/)vbaProject\.bin$/i.test(entry.name));
+
+    if (isOpenDocument && /<manifest:encryption-data\b/.test(await readPart('META-INF/manifest.xml'))) {
+        return { info: { format, hasMacros, encrypted: true, passwordProtected: true } };
+    }
+
+    const info: DocumentInfo = { format, hasMacros, encrypted: false, passwordProtected: false };
+    let preview: DocumentPreview | undefined;
+
+    try {
+        if (isOpenDocument) {
+            const meta = await readPart('meta.xml');
+            info.title = getElementText(meta, 'dc:title');
+            info.author = getElementText(meta, 'dc:creator') || getElementText(meta, 'meta:initial-creator');
+            const statistics = /<meta:document-statistic\b[^>]*>/.exec(meta)?.[0] || '';
+            info.wordCount = toCount(getAttribute(statistics, 'meta:word-count'));
+
+            const content = await readPart('content.xml');
+            if (format === 'odt') {
+                info.pageCount = toCount(getAttribute(statistics, 'meta:page-count'));
+                const paragraphs = odfParagraphs(content);
+                info.text = toSnippet(paragraphs, snippetLength);
+                preview = { layout: 'page', rows: asRows(paragraphs) };
+            } else if (format === 'odp') {
+                const pages = getElements(content, 'draw:page');
+                info.slideCount = pages.length;
+                info.text = toSnippet(pages.flatMap(odfParagraphs), snippetLength);
+                preview = { layout: 'slide', rows: asRows(odfParagraphs(pages[0] || '')) };
+            } else {
+                info.sheetCount = getElements(content, 'table:table').length;
+                const rows = odsRows(content);
+                info.text = toSnippet(rows.map(row => row.join(' ')), snippetLength);
+                preview = { layout: 'sheet', rows };
+            }
+        } else {
+            const core = await readPart('docProps/core.xml');
+            info.title = getElementText(core, 'dc:title');
+            info.author = getElementText(core, 'dc:creator');
+            const app = await readPart('docProps/app.xml');
+
+            if (format === 'docx') {
+                // Saved by the editor, not recalculated here
+                info.pageCount = toCount(getElementText(app, 'Pages'));
+                info.wordCount = toCount(getElementText(app, 'Words'));
+                const paragraphs = ooxmlParagraphs(await readPart('word/document.xml'), 'w');
+                info.text = toSnippet(paragraphs, snippetLength);
+                preview = { layout: 'page', rows: asRows(paragraphs) };
+            } else if (format === 'pptx') {
+                const slides = sortedParts(/^ppt\/slides\/slide\d+\.xml$/);
+                info.slideCount = slides.length;
+
+                // Stop reading slides once the snippet is long enough
+                const lines: string[] = [];
+                let firstSlide: string[] = [];
+                for (const [index, slide] of slides.entries()) {
+                    const paragraphs = ooxmlParagraphs(await readZipText(file, slide, MAX_PART_SIZE), 'a');
+                    if (index === 0) firstSlide = paragraphs;
+                    lines.push(...paragraphs);
+                    if (lines.join(' ').length >= snippetLength) break;
+                }
+                info.text = toSnippet(lines, snippetLength);
+                preview = { layout: 'slide', rows: asRows(firstSlide) };
+            } else {
+                info.sheetCount = getElements(await readPart('xl/workbook.xml'), 'sheets')
+                    .reduce((count, sheets) => count + (sheets.match(/<sheet\b/g) || []).length, 0);
+                const sharedStrings = getElements(await readPart('xl/sharedStrings.xml'), 'si')
+                    .map(item => getElements(item, 't').map(decodeXml).join(''));
+                const [firstSheet] = sortedParts(/^xl\/worksheets\/sheet\d+\.xml$/);
+                const rows = firstSheet ? xlsxRows(await readZipText(file, firstSheet, MAX_PART_SIZE), sharedStrings) : [];
+                info.text = toSnippet(rows.map(row => row.join(' ')), snippetLength);
+                preview = { layout: 'sheet', rows };
+            }
+        }
+    } catch {
+        // A broken or oversized part only costs the snippet and preview, the macro flag stands
+    }
+
+    return { info, preview };
+}
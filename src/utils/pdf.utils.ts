@@ -0,0 +1,94 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { DocumentInfo } from '../types/document';
+
+/**
+ * pdf.js worker configuration (defaults to the unpkg build matching the installed pdfjs-dist)
+ */
+export interface PdfJsConfig {
+    workerSrc?: string;
+}
+
+export interface PdfReadResult {
+    info: DocumentInfo;
+    firstPage?: HTMLCanvasElement; // First page rendered to fit thumbnailSize, missing for password-protected files
+}
+
+let pdfJsConfig: PdfJsConfig = {};
+
+/**
+ * Override where the pdf.js worker is loaded from (self-hosting, CSP, offline builds)
+ */
+export function configurePdfJs(config: PdfJsConfig): void {
+    pdfJsConfig = { ...config };
+}
+
+async function loadPdfJs() {
+    const pdfjs = await import('pdfjs-dist');
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfJsConfig.workerSrc
+        || `https://unpkg.com/pdfjs-dist@${pdfjs.version}/build/pdf.worker.min.mjs`;
+    return pdfjs;
+}
+
+function readString(value: unknown): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+/**
+ * Render a page so that its longest side is `size` pixels
+ */
+async function renderPage(pdf: PDFDocumentProxy, pageNumber: number, size: number): Promise<HTMLCanvasElement> {
+    const page = await pdf.getPage(pageNumber);
+    try {
+        const base = page.getViewport({ scale: 1 });
+        const viewport = page.getViewport({ scale: size / Math.max(base.width, base.height) });
+
+        const canvas = document.createElement('canvas');
+        canvas.width = Math.round(viewport.width);
+        canvas.height = Math.round(viewport.height);
+        await page.render({ canvas, viewport }).promise;
+        return canvas;
+    } finally {
+        page.cleanup();
+    }
+}
+
+/**
+ * Read page count, metadata and encryption status of a PDF and render its first page.
+ * Password-protected files resolve with passwordProtected instead of throwing.
+ */
+export async function readPdf(file: File, thumbnailSize = 400): Promise<PdfReadResult> {
+    const pdfjs = await loadPdfJs();
+    const task = pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) });
+
+    let pdf: PDFDocumentProxy;
+    try {
+        pdf = await task.promise;
+    } catch (error) {
+        // pdf.js exceptions are rebuilt from the worker's message, compare by name
+        if ((error as Error | undefined)?.name === 'PasswordException') {
+            await task.destroy();
+            return { info: { format: 'pdf', encrypted: true, passwordProtected: true } };
+        }
+        throw error;
+    }
+
+    try {
+        const { info } = await pdf.getMetadata();
+        const metadata = (info || {}) as Record<string, unknown>;
+
+        return {
+            info: {
+                format: 'pdf',
+                pageCount: pdf.numPages,
+                title: readString(metadata.Title),
+                author: readString(metadata.Author),
+                // Set for files that only restrict permissions (printing, copying) as well
+                encrypted: !!metadata.EncryptFilterName,
+                passwordProtected: false
+            },
+            firstPage: await renderPage(pdf, 1, thumbnailSize)
+        };
+    } finally {
+        await pdf.destroy();
+    }
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ExportedFile, ProcessedFile } from '../types/common';
+import { PresignedUpload, PresignedUploadOptions, PresignedUploadPart, PresignedUploadRequest } from '../types/upload';
+import { uploadToPresignedUrls } from './presigned.utils';
+
+// Smallest part size S3 accepts
+const PART_SIZE = 5 * 1024 * 1024;
+
+function toExportedFile(file: File): ExportedFile {
+    return { file, name: file.name, size: file.size, type: 'image', extension: '.jpg', mimeType: file.type };
+}
+
+function toProcessedFile(file: File, thumbnail?: File): ProcessedFile {
+    return {
+        processType: 'processed',
+        meta: toExportedFile(file),
+        originalFile: file,
+        processed: toExportedFile(file),
+        ...(thumbnail && { thumbnail: toExportedFile(thumbnail) })
+    };
+}
+
+/**
+ * Storage mock: records every request, statuses answers them in order (200 once it runs out)
+ */
+function createStorage(statuses: number[] = []) {
+    const requests: { url: string; method: string; headers?: HeadersInit; body?: BodyInit | null }[] = [];
+    const fetchMock = jest.fn(async (input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        requests.push({ url: String(input), method: init?.method || 'GET', headers: init?.headers, body: init?.body });
+        const status = statuses.shift() || 200;
+        return new Response(null, { status, headers: { ETag: `"etag-${requests.length}"` } });
+    });
+    return { fetch: fetchMock as unknown as typeof fetch, requests };
+}
+
+function upload(
+    files: ProcessedFile[],
+    storage: ReturnType<typeof createStorage>,
+    getPresignedUrl: (request: PresignedUploadRequest) => PresignedUpload,
+    options: Partial<PresignedUploadOptions> = {}
+) {
+    return uploadToPresignedUrls(files, {
+        getPresignedUrl: async request => getPresignedUrl(request),
+        fetch: storage.fetch,
+        retryDelay: 0,
+        ...options
+    });
+}
+
+describe('uploadToPresignedUrls', () => {
+    it('PUTs the processed file and the thumbnail with their signed headers', async () => {
+        const storage = createStorage();
+        const file = new File(['image'], 'photo.jpg', { type: 'image/jpeg' });
+        const thumbnail = new File(['thumb'], 'photo_thumb.webp', { type: 'image/webp' });
+
+        const [result] = await upload([toProcessedFile(file, thumbnail)], storage, request => ({
+            key: `uploads/${request.kind}/${request.file.name}`,
+            url: `https://bucket.test/${request.kind}`,
+            headers: { 'x-amz-acl': 'private' }
+        }));
+
+        expect(result.status).toBe('uploaded');
+        expect(result.keys).toEqual({
+            processed: 'uploads/processed/photo.jpg',
+            thumbnail: 'uploads/thumbnail/photo_thumb.webp'
+        });
+        expect(storage.requests.map(({ url, method, headers, body }) => ({ url, method, headers, body }))).toEqual([
+            { url: 'https://bucket.test/processed', method: 'PUT', headers: { 'Content-Type': 'image/jpeg', 'x-amz-acl': 'private' }, body: file },
+            { url: 'https://bucket.test/thumbnail', method: 'PUT', headers: { 'Content-Type': 'image/webp', 'x-amz-acl': 'private' }, body: thumbnail }
+        ]);
+    });
+
+    it('POSTs the policy fields before the file', async () => {
+        const storage = createStorage();
+        const file = new File(['image'], 'photo.jpg', { type: 'image/jpeg' });
+
+        const [result] = await upload([toProcessedFile(file)], storage, () => ({
+            key: 'uploads/photo.jpg',
+            url: 'https://bucket.test/',
+            method: 'POST',
+            fields: { key: 'uploads/photo.jpg', policy: 'base64-policy', 'x-amz-signature': 'signature' }
+        }));
+
+        expect(result.status).toBe('uploaded');
+        expect(storage.requests).toHaveLength(1);
+        expect(storage.requests[0].method).toBe('POST');
+
+        const form = storage.requests[0].body as FormData;
+        expect([...form.keys()]).toEqual(['key', 'policy', 'x-amz-signature', 'file']);
+        expect((form.get('file') as File).name).toBe('photo.jpg');
+    });
+
+    it('uploads large files in parts and completes them with the collected ETags', async () => {
+        const storage = createStorage();
+        const file = new File([new Uint8Array(PART_SIZE + 1024)], 'video.mp4', { type: 'video/mp4' });
+        const complete = jest.fn(async (_parts: PresignedUploadPart[]) => undefined);
+        const abort = jest.fn(async () => undefined);
+        const requests: PresignedUploadRequest[] = [];
+
+        const [result] = await upload([toProcessedFile(file)], storage, request => {
+            requests.push(request);
+            return { key: 'uploads/video.mp4', parts: ['https://bucket.test/part/1', 'https://bucket.test/part/2'], complete, abort };
+        }, { multipartThreshold: 1024, partSize: PART_SIZE });
+
+        expect(result.status).toBe('uploaded');
+        expect(requests[0]).toMatchObject({ multipart: true, partCount: 2 });
+        expect(storage.requests.map(({ url, method }) => ({ url, method }))).toEqual([
+            { url: 'https://bucket.test/part/1', method: 'PUT' },
+            { url: 'https://bucket.test/part/2', method: 'PUT' }
+        ]);
+        expect((storage.requests[0].body as Blob).size).toBe(PART_SIZE);
+        expect((storage.requests[1].body as Blob).size).toBe(1024);
+        expect(complete).toHaveBeenCalledWith([
+            { partNumber: 1, etag: '"etag-1"' },
+            { partNumber: 2, etag: '"etag-2"' }
+        ]);
+        expect(abort).not.toHaveBeenCalled();
+    });
+
+    it('aborts the multipart upload when a part fails', async () => {
+        // 403 is not retried
+        const storage = createStorage([200, 403]);
+        const file = new File([new Uint8Array(PART_SIZE + 1024)], 'video.mp4', { type: 'video/mp4' });
+        const complete = jest.fn(async (_parts: PresignedUploadPart[]) => undefined);
+        const abort = jest.fn(async () => undefined);
+
+        const [result] = await upload([toProcessedFile(file)], storage, () => ({
+            key: 'uploads/video.mp4',
+            parts: ['https://bucket.test/part/1', 'https://bucket.test/part/2'],
+            complete,
+            abort
+        }), { multipartThreshold: 1024, partSize: PART_SIZE });
+
+        expect(result.status).toBe('failed');
+        expect(result.error?.errorCode).toBe('upload-failed');
+        expect(complete).not.toHaveBeenCalled();
+        expect(abort).toHaveBeenCalledTimes(1);
+    });
+});
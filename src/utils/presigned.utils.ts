@@ -0,0 +1,223 @@
+import { ProcessedFile, UnProcessedFile } from '../types/common';
+import {
+    PresignedUpload,
+    PresignedUploadOptions,
+    PresignedUploadPart,
+    PresignedUploadRequest,
+    PresignedUploadResult
+} from '../types/upload';
+import { isAbortError } from './abort.utils';
+import { mapWithConcurrency } from './concurrency.utils';
+import { assertResponseOk, getRetryOptions, getUploadableFile, RetryOptions, withRetry } from './upload.utils';
+
+const DEFAULT_MULTIPART_THRESHOLD = 100 * 1024 * 1024;
+const DEFAULT_PART_SIZE = 10 * 1024 * 1024;
+// S3 rejects parts below 5 MB (except the last one)
+const MIN_PART_SIZE = 5 * 1024 * 1024;
+
+type FetchFunction = typeof fetch;
+
+interface UploadObject {
+    file: File;
+    kind: PresignedUploadRequest['kind'];
+    variantName?: string;
+}
+
+/**
+ * List the objects to upload for a result: processed file, thumbnail and variants
+ */
+function collectObjects(result: ProcessedFile, options: PresignedUploadOptions): UploadObject[] {
+    const objects: UploadObject[] = [];
+
+    const processed = getUploadableFile(result);
+    if (processed) {
+        objects.push({ file: processed, kind: 'processed' });
+    }
+
+    if (options.includeThumbnail !== false && result.thumbnail?.file) {
+        objects.push({ file: result.thumbnail.file, kind: 'thumbnail' });
+    }
+
+    if (options.includeVariants !== false && result.variants) {
+        for (const [variantName, variant] of Object.entries(result.variants)) {
+            if (variant.file) {
+                objects.push({ file: variant.file, kind: 'variant', variantName });
+            }
+        }
+    }
+
+    return objects;
+}
+
+/**
+ * Single request upload: PUT the blob, or POST it with the presigned policy fields
+ */
+async function uploadSinglePart(
+    file: File,
+    target: PresignedUpload,
+    fetchFn: FetchFunction,
+    retryOptions: RetryOptions
+): Promise<void> {
+    if (!target.url) {
+        throw new Error(`No upload URL returned for ${target.key}`);
+    }
+
+    const url = target.url;
+    await withRetry(async () => {
+        let response: Response;
+        if (target.method === 'POST') {
+            // The file field must come after the policy fields
+            const form = new FormData();
+            Object.entries(target.fields || {}).forEach(([name, value]) => form.append(name, value));
+            form.append('file', file, file.name);
+            response = await fetchFn(url, { method: 'POST', headers: target.headers, body: form, signal: retryOptions.signal });
+        } else {
+            response = await fetchFn(url, {
+                method: 'PUT',
+                headers: { 'Content-Type': file.type || 'application/octet-stream', ...target.headers },
+                body: file,
+                signal: retryOptions.signal
+            });
+        }
+        assertResponseOk(response, `Upload of ${target.key}`);
+    }, retryOptions);
+}
+
+/**
+ * Multipart upload: PUT each part to its presigned URL, collect ETags and let the caller complete it
+ */
+async function uploadMultipart(
+    file: File,
+    target: PresignedUpload,
+    partSize: number,
+    fetchFn: FetchFunction,
+    retryOptions: RetryOptions,
+    onBytes: (bytes: number) => void
+): Promise<void> {
+    const partUrls = target.parts || [];
+    const partCount = Math.ceil(file.size / partSize);
+    if (partUrls.length < partCount || !target.complete) {
+        throw new Error(`Multipart upload of ${target.key} needs ${partCount} part URLs and a complete() callback`);
+    }
+
+    const parts: PresignedUploadPart[] = [];
+    try {
+        for (let index = 0; index < partCount; index++) {
+            const start = index * partSize;
+            const chunk = file.slice(start, start + partSize);
+
+            const etag = await withRetry(async () => {
+                const response = await fetchFn(partUrls[index], { method: 'PUT', body: chunk, signal: retryOptions.signal });
+                assertResponseOk(response, `Part ${index + 1} of ${target.key}`);
+
+                const value = response.headers.get('ETag');
+                if (!value) {
+                    throw new Error('ETag header is not readable, add it to ExposeHeaders in the bucket CORS configuration');
+                }
+                return value;
+            }, retryOptions);
+
+            parts.push({ partNumber: index + 1, etag });
+            onBytes(start + chunk.size);
+        }
+
+        await target.complete(parts);
+    } catch (error) {
+        // Don't leave orphaned parts in the bucket
+        await target.abort?.().catch(() => undefined);
+        throw error;
+    }
+}
+
+/**
+ * Upload processed files (and their thumbnails and variants) straight to S3-compatible storage
+ * through presigned URLs returned by getPresignedUrl. Results keep the input order.
+ */
+export async function uploadToPresignedUrls(
+    files: (ProcessedFile | UnProcessedFile)[],
+    options: PresignedUploadOptions
+): Promise<PresignedUploadResult[]> {
+    const fetchFn: FetchFunction = options.fetch || globalThis.fetch.bind(globalThis);
+    const retryOptions = getRetryOptions(options);
+    const threshold = options.multipartThreshold ?? DEFAULT_MULTIPART_THRESHOLD;
+    const partSize = Math.max(MIN_PART_SIZE, options.partSize || DEFAULT_PART_SIZE);
+
+    const objectsPerFile = files.map(result => result.processType === 'processed' ? collectObjects(result, options) : []);
+    const sizes = objectsPerFile.map(objects => objects.reduce((sum, object) => sum + object.file.size, 0));
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+    const uploaded = files.map(() => 0);
+
+    const reportProgress = (index: number, bytes: number) => {
+        uploaded[index] = bytes;
+        const done = uploaded.reduce((sum, value) => sum + value, 0);
+        options.onProgress?.({
+            currentFile: index + 1,
+            totalFiles: files.length,
+            fileName: files[index].meta.name,
+            fileId: files[index].id,
+            stage: bytes >= sizes[index] ? 'completed' : 'uploading',
+            percentage: totalBytes > 0 ? Math.round((done / totalBytes) * 100) : 100,
+            bytesUploaded: bytes,
+            bytesTotal: sizes[index]
+        });
+    };
+
+    return mapWithConcurrency(files, options.concurrency || 1, async (result, index): Promise<PresignedUploadResult> => {
+        const objects = objectsPerFile[index];
+        if (result.processType !== 'processed' || objects.length === 0) {
+            return { status: 'skipped', fileName: result.meta.name, file: result };
+        }
+
+        const fileName = objects[0].file.name;
+        const keys: NonNullable<PresignedUploadResult['keys']> = {};
+        let completedBytes = 0;
+
+        try {
+            reportProgress(index, 0);
+            for (const object of objects) {
+                const multipart = object.file.size > threshold;
+                const target = await options.getPresignedUrl({
+                    file: object.file,
+                    kind: object.kind,
+                    variantName: object.variantName,
+                    result,
+                    multipart,
+                    ...(multipart && { partCount: Math.ceil(object.file.size / partSize) })
+                });
+
+                if (multipart) {
+                    await uploadMultipart(object.file, target, partSize, fetchFn, retryOptions,
+                        bytes => reportProgress(index, completedBytes + bytes));
+                } else {
+                    await uploadSinglePart(object.file, target, fetchFn, retryOptions);
+                }
+
+                completedBytes += object.file.size;
+                reportProgress(index, completedBytes);
+
+                if (object.kind === 'variant' && object.variantName) {
+                    keys.variants = { ...keys.variants, [object.variantName]: target.key };
+                } else {
+                    keys[object.kind as 'processed' | 'thumbnail'] = target.key;
+                }
+            }
+
+            return { status: 'uploaded', fileName, file: result, keys };
+        } catch (error) {
+            const aborted = isAbortError(error) || !!options.signal?.aborted;
+            return {
+                status: aborted ? 'aborted' : 'failed',
+                fileName,
+                file: result,
+                keys,
+                error: {
+                    fileName,
+                    errorCode: aborted ? 'aborted' : 'upload-failed',
+                    message: aborted
+                        ? 'Upload was aborted'
+                        : error instanceof Error ? error.message : 'Upload failed'
+                }
+            };
+        }
+    });
+}
@@ -0,0 +1,60 @@
+import { ProgressCallback, ProgressInfo } from '../types/common';
+
+/**
+ * Progress of a single file: its stage and how far along it is (0-1)
+ */
+export type FileProgressCallback = (stage: ProgressInfo['stage'], fraction: number) => void;
+
+// Below this an estimate is mostly noise
+const MIN_ETA_FRACTION = 0.02;
+
+/**
+ * Remaining time extrapolated from the time spent so far (undefined while it can't be told yet)
+ */
+function estimateRemaining(elapsed: number, fraction: number): number | undefined {
+    if (fraction >= 1) return 0;
+    if (fraction < MIN_ETA_FRACTION) return undefined;
+    return Math.round((elapsed / fraction) * (1 - fraction));
+}
+
+/**
+ * Track the progress of every file in a batch and report it with elapsed time and ETA.
+ * The overall percentage is the mean of the per-file fractions, so it stays right when files run in parallel.
+ */
+export function createProgressReporter(
+    files: { id: string; name: string }[],
+    onProgress?: ProgressCallback
+): (index: number) => FileProgressCallback {
+    const fractions = files.map(() => 0);
+    const startTimes: (number | undefined)[] = files.map(() => undefined);
+    const batchStartedAt = Date.now();
+
+    return (index) => (stage, fraction) => {
+        if (!onProgress) return;
+
+        const now = Date.now();
+        const startedAt = startTimes[index] ?? now;
+        startTimes[index] = startedAt;
+
+        // A file never goes backwards, finished files count as done even when they failed
+        fractions[index] = stage === 'completed' || stage === 'error'
+            ? 1
+            : Math.max(fractions[index], Math.min(1, Math.max(0, fraction)));
+
+        const overall = fractions.reduce((sum, value) => sum + value, 0) / fractions.length;
+        const elapsed = now - startedAt;
+
+        onProgress({
+            currentFile: index + 1,
+            totalFiles: files.length,
+            fileName: files[index].name,
+            fileId: files[index].id,
+            stage,
+            percentage: Math.round(overall * 100),
+            fileProgress: Math.round(fractions[index] * 100),
+            elapsed,
+            eta: estimateRemaining(elapsed, fractions[index]),
+            totalEta: estimateRemaining(now - batchStartedAt, overall)
+        });
+    };
+}
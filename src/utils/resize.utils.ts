@@ -0,0 +1,81 @@
+import { ImageResizeOptions } from '../types/image';
+
+/**
+ * Source and destination rectangles for a resize, usable with canvas drawImage and sharp
+ */
+export interface ResizeGeometry {
+    sx: number;     // Source rectangle
+    sy: number;
+    sw: number;
+    sh: number;
+    dx: number;     // Destination rectangle inside the output
+    dy: number;
+    dw: number;
+    dh: number;
+    width: number;  // Output size
+    height: number;
+}
+
+/**
+ * Compute crop, scale and placement for the given resize options
+ */
+export function computeResizeGeometry(
+    srcWidth: number,
+    srcHeight: number,
+    options?: ImageResizeOptions
+): ResizeGeometry {
+    // Apply crop box first (clamped to the image)
+    const cropX = Math.min(Math.max(0, options?.crop?.x || 0), srcWidth - 1);
+    const cropY = Math.min(Math.max(0, options?.crop?.y || 0), srcHeight - 1);
+    const cropWidth = Math.min(options?.crop?.width || srcWidth, srcWidth - cropX);
+    const cropHeight = Math.min(options?.crop?.height || srcHeight, srcHeight - cropY);
+
+    const boxWidth = options?.maxWidth;
+    const boxHeight = options?.maxHeight;
+    const fit = options?.fit || 'inside';
+
+    const geometry: ResizeGeometry = {
+        sx: cropX, sy: cropY, sw: cropWidth, sh: cropHeight,
+        dx: 0, dy: 0, dw: cropWidth, dh: cropHeight,
+        width: cropWidth, height: cropHeight
+    };
+
+    if (!boxWidth && !boxHeight) {
+        return geometry;
+    }
+
+    if (fit === 'inside' || !boxWidth || !boxHeight) {
+        // 'inside' never enlarges; the other modes scale to the single given side
+        const scales = [boxWidth ? boxWidth / cropWidth : Infinity, boxHeight ? boxHeight / cropHeight : Infinity];
+        const scale = fit === 'inside' ? Math.min(1, ...scales) : Math.min(...scales);
+        geometry.dw = geometry.width = Math.max(1, Math.round(cropWidth * scale));
+        geometry.dh = geometry.height = Math.max(1, Math.round(cropHeight * scale));
+    } else if (fit === 'fill') {
+        geometry.dw = geometry.width = boxWidth;
+        geometry.dh = geometry.height = boxHeight;
+    } else if (fit === 'contain') {
+        const scale = Math.min(boxWidth / cropWidth, boxHeight / cropHeight);
+        geometry.dw = Math.max(1, Math.round(cropWidth * scale));
+        geometry.dh = Math.max(1, Math.round(cropHeight * scale));
+        geometry.width = boxWidth;
+        geometry.height = boxHeight;
+        geometry.dx = Math.floor((boxWidth - geometry.dw) / 2);
+        geometry.dy = Math.floor((boxHeight - geometry.dh) / 2);
+    } else {
+        // cover: fill the box, cut the overflow around the focal point
+        const scale = Math.max(boxWidth / cropWidth, boxHeight / cropHeight);
+        const visibleWidth = Math.min(cropWidth, Math.round(boxWidth / scale));
+        const visibleHeight = Math.min(cropHeight, Math.round(boxHeight / scale));
+        const focusX = cropX + (options?.focalPoint?.x ?? 0.5) * cropWidth;
+        const focusY = cropY + (options?.focalPoint?.y ?? 0.5) * cropHeight;
+
+        geometry.sx = Math.round(Math.min(Math.max(cropX, focusX - visibleWidth / 2), cropX + cropWidth - visibleWidth));
+        geometry.sy = Math.round(Math.min(Math.max(cropY, focusY - visibleHeight / 2), cropY + cropHeight - visibleHeight));
+        geometry.sw = visibleWidth;
+        geometry.sh = visibleHeight;
+        geometry.dw = geometry.width = boxWidth;
+        geometry.dh = geometry.height = boxHeight;
+    }
+
+    return geometry;
+}
@@ -0,0 +1,26 @@
+import { ExportedFile } from '../types/common';
+
+/**
+ * Build a srcset string ("url 320w, url 1600w") from image variants.
+ * Pass resolveUrl to use your own URLs (e.g. CDN keys after upload) instead of object URLs.
+ */
+export function buildSrcSet(
+    variants: Record<string, ExportedFile>,
+    resolveUrl: (variant: ExportedFile, name: string) => string | undefined = (variant) => variant.url
+): string {
+    const seenWidths = new Set<number>();
+
+    return Object.entries(variants)
+        .filter(([, variant]) => variant.width !== undefined)
+        .sort(([, a], [, b]) => a.width! - b.width!)
+        .reduce<string[]>((candidates, [name, variant]) => {
+            const url = resolveUrl(variant, name);
+            // Duplicate width descriptors make the whole srcset invalid
+            if (url && !seenWidths.has(variant.width!)) {
+                seenWidths.add(variant.width!);
+                candidates.push(`${url} ${variant.width}w`);
+            }
+            return candidates;
+        }, [])
+        .join(', ');
+}
@@ -0,0 +1,196 @@
+import { throwIfAborted } from './abort.utils';
+
+export interface TarEntry {
+    name: string;
+    size: number;
+    isDirectory: boolean;
+    lastModified?: Date;
+    data?: Uint8Array; // Only for entries accepted by readData
+}
+
+export interface TarReadOptions {
+    // Keep the content of an entry (everything else is skipped without buffering)
+    readData?: (entry: TarEntry) => boolean;
+    // Stop reading after this entry or extended header (limits, zip bombs), the listing is then truncated.
+    // headerSize is the size of the long-name and PAX headers read so far.
+    shouldStop?: (entries: TarEntry[], headerSize: number) => boolean;
+    // Checked before every header
+    signal?: AbortSignal;
+}
+
+const BLOCK_SIZE = 512;
+// Long names and PAX records are a few hundred bytes, a larger header is an attack
+const MAX_EXTENDED_HEADER_SIZE = 1024 * 1024;
+const decoder = new TextDecoder();
+
+/**
+ * Pull exact byte counts out of a stream without concatenating every chunk
+ */
+function createByteReader(stream: ReadableStream<Uint8Array>) {
+    const reader = stream.getReader();
+    const chunks: Uint8Array[] = [];
+    let available = 0;
+
+    const pull = async (): Promise<boolean> => {
+        const { done, value } = await reader.read();
+        if (done) return false;
+        chunks.push(value);
+        available += value.length;
+        return true;
+    };
+
+    const consume = (length: number, target?: Uint8Array): void => {
+        let position = 0;
+        while (position < length) {
+            const chunk = chunks[0];
+            const size = Math.min(chunk.length, length - position);
+            target?.set(chunk.subarray(0, size), position);
+            position += size;
+            if (size === chunk.length) chunks.shift();
+            else chunks[0] = chunk.subarray(size);
+        }
+        available -= length;
+    };
+
+    return {
+        /** Read `length` bytes, or fewer at the end of the stream */
+        async read(length: number): Promise<Uint8Array> {
+            while (available < length && await pull());
+            const bytes = new Uint8Array(Math.min(length, available));
+            consume(bytes.length, bytes);
+            return bytes;
+        },
+        /** Drop `length` bytes, chunk by chunk */
+        async skip(length: number): Promise<void> {
+            while (length > 0) {
+                if (!available && !await pull()) throw new Error('TAR archive is truncated');
+                const size = Math.min(length, available);
+                consume(size);
+                length -= size;
+            }
+        },
+        cancel: () => reader.cancel()
+    };
+}
+
+function readString(bytes: Uint8Array, start: number, length: number): string {
+    const field = bytes.subarray(start, start + length);
+    const end = field.indexOf(0);
+    return decoder.decode(end === -1 ? field : field.subarray(0, end));
+}
+
+/**
+ * Numeric header field: octal text, or big-endian base-256 when the high bit is set (GNU, > 8 GB)
+ */
+function readNumber(bytes: Uint8Array, start: number, length: number): number {
+    if (bytes[start] & 0x80) {
+        let value = bytes[start] & 0x7f;
+        for (let i = start + 1; i < start + length; i++) value = value * 256 + bytes[i];
+        return value;
+    }
+    const text = readString(bytes, start, length).trim();
+    return text ? parseInt(text, 8) : 0;
+}
+
+/**
+ * Header checksum: sum of all bytes with the checksum field counted as spaces
+ */
+export function isTarHeader(block: Uint8Array): boolean {
+    if (block.length < BLOCK_SIZE) return false;
+    let sum = 0;
+    for (let i = 0; i < BLOCK_SIZE; i++) {
+        sum += i >= 148 && i < 156 ? 0x20 : block[i];
+    }
+    return sum === readNumber(block, 148, 8);
+}
+
+/**
+ * PAX extended header records: "<length> <key>=<value>\n"
+ */
+function readPaxRecords(data: Uint8Array): Record<string, string> {
+    const records: Record<string, string> = {};
+    for (const line of decoder.decode(data).split('\n')) {
+        const match = /^\d+ ([^=]+)=(.*)$/.exec(line);
+        if (match) records[match[1]] = match[2];
+    }
+    return records;
+}
+
+/**
+ * List the files and directories of a TAR stream (ustar, GNU long names, PAX).
+ * Links and special files are skipped.
+ */
+export async function readTarEntries(stream: ReadableStream<Uint8Array>, options: TarReadOptions = {}): Promise<TarEntry[]> {
+    const reader = createByteReader(stream);
+    const entries: TarEntry[] = [];
+    let longName: string | undefined;
+    let pax: Record<string, string> = {};
+    let headerSize = 0;
+
+    try {
+        for (;;) {
+            throwIfAborted(options.signal);
+            const header = await reader.read(BLOCK_SIZE);
+            // Two zero blocks end the archive, some writers stop after one or none
+            if (header.length < BLOCK_SIZE || header.every(byte => byte === 0)) break;
+            if (!isTarHeader(header)) {
+                throw new Error('Corrupted TAR header');
+            }
+
+            const type = String.fromCharCode(header[156] || 0x30);
+            const isExtendedHeader = type === 'L' || type === 'x';
+            // A PAX size applies to the entry after it, not to another extended header
+            const size = pax.size !== undefined && !isExtendedHeader ? parseInt(pax.size, 10) : readNumber(header, 124, 12);
+            const padding = (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+
+            // Headers that describe the next entry
+            if (isExtendedHeader) {
+                if (size > MAX_EXTENDED_HEADER_SIZE) {
+                    throw new Error(`TAR extended header is larger than ${MAX_EXTENDED_HEADER_SIZE} bytes`);
+                }
+                const data = await reader.read(size);
+                await reader.skip(padding);
+                if (type === 'L') longName = readString(data, 0, data.length);
+                else pax = readPaxRecords(data);
+
+                headerSize += size;
+                if (options.shouldStop?.(entries, headerSize)) break;
+                continue;
+            }
+
+            const prefix = readString(header, 345, 155);
+            const headerName = readString(header, 0, 100);
+            const name = pax.path || longName || (prefix ? `${prefix}/${headerName}` : headerName);
+            const mtime = pax.mtime !== undefined ? parseFloat(pax.mtime) : readNumber(header, 136, 12);
+            longName = undefined;
+            pax = {};
+
+            if (type !== '0' && type !== '7' && type !== '5') {
+                await reader.skip(size + padding);
+                continue;
+            }
+
+            const entry: TarEntry = {
+                name,
+                size: type === '5' ? 0 : size,
+                isDirectory: type === '5' || name.endsWith('/'),
+                lastModified: mtime ? new Date(mtime * 1000) : undefined
+            };
+
+            if (!entry.isDirectory && options.readData?.(entry)) {
+                entry.data = await reader.read(size);
+                if (entry.data.length < size) throw new Error('TAR archive is truncated');
+                await reader.skip(padding);
+            } else {
+                await reader.skip(size + padding);
+            }
+
+            entries.push(entry);
+            if (options.shouldStop?.(entries, headerSize)) break;
+        }
+    } finally {
+        await reader.cancel();
+    }
+
+    return entries;
+}
@@ -0,0 +1,250 @@
+import { DocumentInfo, TextEncoding } from '../types/document';
+import { DocumentPreview, toSnippet } from './office.utils';
+
+export type TextFormat = 'txt' | 'csv' | 'json';
+
+export interface TextReadResult {
+    info: DocumentInfo;
+    preview?: DocumentPreview;
+    content: string; // Decoded text without BOM, line endings normalized to LF
+}
+
+const TEXT_EXTENSIONS: Record<string, TextFormat> = {
+    txt: 'txt', text: 'txt', log: 'txt', md: 'txt',
+    csv: 'csv', tsv: 'csv',
+    json: 'json'
+};
+
+const TEXT_MIME_TYPES: Record<string, TextFormat> = {
+    'text/plain': 'txt',
+    'text/markdown': 'txt',
+    'text/csv': 'csv',
+    'text/tab-separated-values': 'csv',
+    'application/json': 'json',
+    'text/json': 'json'
+};
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+// Bytes checked for the UTF-16 pattern, characters checked for the CSV delimiter and drawn in the preview
+const ENCODING_SAMPLE_SIZE = 4096;
+const TEXT_SAMPLE_SIZE = 64 * 1024;
+const DELIMITER_SAMPLE_ROWS = 20;
+const PREVIEW_ROWS = 40;
+const PREVIEW_COLUMNS = 8;
+
+/**
+ * Text format of a file by extension, then by MIME type (undefined for other documents)
+ */
+export function getTextFormat(file: { name: string; type: string }): TextFormat | undefined {
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+    return TEXT_EXTENSIONS[extension] || TEXT_MIME_TYPES[file.type.split(';')[0].trim().toLowerCase()];
+}
+
+function detectBom(bytes: Uint8Array): TextEncoding | undefined {
+    if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+    if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+    if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+    return undefined;
+}
+
+/**
+ * UTF-16 without a BOM: text in Latin scripts has a zero in every other byte
+ */
+function detectUtf16(bytes: Uint8Array): TextEncoding | undefined {
+    const sample = bytes.subarray(0, ENCODING_SAMPLE_SIZE);
+    if (sample.length < 2) return undefined;
+
+    let evenZeros = 0;
+    let oddZeros = 0;
+    for (let i = 0; i < sample.length; i++) {
+        if (sample[i] !== 0) continue;
+        if (i % 2) oddZeros++;
+        else evenZeros++;
+    }
+
+    const pairs = sample.length / 2;
+    if (oddZeros > pairs * 0.3 && evenZeros < pairs * 0.05) return 'utf-16le';
+    if (evenZeros > pairs * 0.3 && oddZeros < pairs * 0.05) return 'utf-16be';
+    return undefined;
+}
+
+/**
+ * Decode text by BOM, UTF-16 pattern or UTF-8 validity, falling back to Windows-1254 (Turkish)
+ */
+export function decodeText(bytes: Uint8Array): { text: string; encoding: TextEncoding } {
+    const encoding = detectBom(bytes) || detectUtf16(bytes);
+    if (encoding) {
+        // The BOM is dropped by TextDecoder
+        return { text: new TextDecoder(encoding).decode(bytes), encoding };
+    }
+
+    try {
+        return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes), encoding: 'utf-8' };
+    } catch {
+        // Legacy files saved by Excel or Notepad on Turkish Windows use the ANSI code page
+        return { text: new TextDecoder('windows-1254').decode(bytes), encoding: 'windows-1254' };
+    }
+}
+
+/**
+ * Convert CRLF and CR line endings to LF and report which ones the text used
+ */
+export function normalizeLineEndings(text: string): { text: string; lineEnding?: DocumentInfo['lineEnding'] } {
+    let lf = 0;
+    let crlf = 0;
+    let cr = 0;
+    for (let i = 0; i < text.length; i++) {
+        const code = text.charCodeAt(i);
+        if (code === 13) {
+            if (text.charCodeAt(i + 1) === 10) {
+                crlf++;
+                i++;
+            } else {
+                cr++;
+            }
+        } else if (code === 10) {
+            lf++;
+        }
+    }
+
+    const found = (['lf', 'crlf', 'cr'] as const).filter((_, index) => [lf, crlf, cr][index] > 0);
+    return {
+        text: crlf || cr ? text.replace(/\r\n?/g, '\n') : text,
+        lineEnding: found.length > 1 ? 'mixed' : found[0]
+    };
+}
+
+/**
+ * Split LF-normalized CSV text into records (RFC 4180: quoted fields may hold delimiters,
+ * doubled quotes and line breaks). Blank lines are skipped, only the first `keep` records
+ * are returned but all of them are counted.
+ */
+export function parseCsv(text: string, delimiter: string, keep = Infinity): { rows: string[][]; count: number } {
+    const rows: string[][] = [];
+    let count = 0;
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    let wasQuoted = false;
+
+    const endRow = () => {
+        if (row.length === 0 && field === '' && !wasQuoted) return;
+        row.push(field);
+        if (rows.length < keep) rows.push(row);
+        count++;
+        row = [];
+        field = '';
+        wasQuoted = false;
+    };
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char !== '"') {
+                field += char;
+            } else if (text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else {
+                quoted = false;
+            }
+        } else if (char === '"' && field === '') {
+            quoted = true;
+            wasQuoted = true;
+        } else if (char === delimiter) {
+            row.push(field);
+            field = '';
+            wasQuoted = false;
+        } else if (char === '\n') {
+            endRow();
+        } else {
+            field += char;
+        }
+    }
+    endRow();
+
+    return { rows, count };
+}
+
+/**
+ * Pick the delimiter that splits the header into the most columns and keeps the same
+ * column count on the following rows (comma when nothing splits)
+ */
+export function detectDelimiter(text: string): string {
+    const truncated = text.length > TEXT_SAMPLE_SIZE;
+    const sample = text.slice(0, TEXT_SAMPLE_SIZE);
+
+    let best = { delimiter: ',', score: 0 };
+    for (const delimiter of CSV_DELIMITERS) {
+        const { rows } = parseCsv(sample, delimiter, DELIMITER_SAMPLE_ROWS + 1);
+        // The last row of a cut sample may be incomplete
+        const widths = rows.slice(0, truncated && rows.length > 1 ? -1 : undefined).map(row => row.length);
+        if (!widths.length || widths[0] < 2) continue;
+
+        const consistency = widths.filter(width => width === widths[0]).length / widths.length;
+        const score = consistency * 100 + widths[0];
+        if (score > best.score) best = { delimiter, score };
+    }
+    return best.delimiter;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Read a plain text, CSV or JSON file: encoding, line endings, CSV header and row count,
+ * JSON validity, a snippet and the first lines for the thumbnail
+ */
+export async function readTextDocument(file: Blob, format: TextFormat, snippetLength = 500): Promise<TextReadResult> {
+    const decoded = decodeText(new Uint8Array(await file.arrayBuffer()));
+    const { text: content, lineEnding } = normalizeLineEndings(decoded.text);
+
+    let lineCount = 0;
+    for (let i = 0; i < content.length; i++) {
+        if (content.charCodeAt(i) === 10) lineCount++;
+    }
+    if (content && !content.endsWith('\n')) lineCount++;
+
+    const info: DocumentInfo = {
+        format,
+        encoding: decoded.encoding,
+        lineEnding,
+        lineCount,
+        // Whitespace collapses in the snippet, a few times the length is enough
+        text: toSnippet([content.slice(0, snippetLength * 4)], snippetLength),
+        encrypted: false,
+        passwordProtected: false
+    };
+    let preview: DocumentPreview;
+
+    if (format === 'csv') {
+        const delimiter = detectDelimiter(content);
+        const { rows, count } = parseCsv(content, delimiter, PREVIEW_ROWS);
+        info.delimiter = delimiter;
+        info.columns = (rows[0] || []).map(column => column.trim());
+        info.rowCount = Math.max(0, count - 1);
+        preview = { layout: 'sheet', rows: rows.map(row => row.slice(0, PREVIEW_COLUMNS)) };
+    } else {
+        if (format === 'json') {
+            try {
+                const value: unknown = JSON.parse(content);
+                info.validJson = true;
+                // Arrays are treated like tables, e.g. for bulk imports
+                if (Array.isArray(value)) {
+                    info.rowCount = value.length;
+                    const first = value.find(isPlainObject);
+                    if (first) info.columns = Object.keys(first);
+                }
+            } catch (error) {
+                info.validJson = false;
+                info.jsonError = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        const lines = content ? content.slice(0, TEXT_SAMPLE_SIZE).split('\n').slice(0, PREVIEW_ROWS) : [];
+        preview = { layout: 'page', rows: lines.map(line => [line]) };
+    }
+
+    return { info, preview, content };
+}
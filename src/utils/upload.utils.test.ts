@@ -0,0 +1,125 @@
+import { describe, expect, it, jest } from '@jest/globals';
+import { ProcessedFile } from '../types/common';
+import { UploadOptions } from '../types/upload';
+import { createMemoryResumeStore, uploadFiles } from './upload.utils';
+
+const ENDPOINT = 'https://upload.test/files';
+
+function toProcessedFile(file: File): ProcessedFile {
+    const meta = { name: file.name, size: file.size, type: 'unknown', extension: '.bin', mimeType: file.type };
+    return { processType: 'processed', meta, originalFile: file, processed: { ...meta, file } };
+}
+
+/**
+ * Generic http protocol server: stores the received byte count per upload id.
+ * statuses answers the POSTs in order (200 once it runs out), stall never moves the offset.
+ */
+function createServer(statuses: number[] = [], stall = false) {
+    const stored = new Map<string, number>();
+    const requests: { method: string; range?: string }[] = [];
+
+    const fetchMock = jest.fn(async (_input: RequestInfo | URL, init?: RequestInit): Promise<Response> => {
+        const headers = init?.headers as Record<string, string>;
+        const uploadId = headers['X-Upload-Id'];
+        const method = init?.method || 'GET';
+        requests.push({ method, range: headers['Content-Range'] });
+
+        if (method === 'HEAD') {
+            return stored.has(uploadId)
+                ? new Response(null, { headers: { 'Upload-Offset': String(stored.get(uploadId)) } })
+                : new Response(null, { status: 404 });
+        }
+
+        const status = statuses.shift() || 200;
+        if (status !== 200) return new Response(null, { status });
+
+        const start = Number(/^bytes (\d+)-/.exec(headers['Content-Range'])?.[1] || 0);
+        const offset = stall ? 0 : start + (init?.body as Blob).size;
+        stored.set(uploadId, offset);
+        return new Response(JSON.stringify({ received: offset }), { headers: { 'Upload-Offset': String(offset) } });
+    });
+
+    return { fetch: fetchMock as unknown as typeof fetch, requests };
+}
+
+function upload(file: File, options: Partial<UploadOptions>) {
+    return uploadFiles([toProcessedFile(file)], { endpoint: ENDPOINT, chunkSize: 4, retryDelay: 0, ...options });
+}
+
+describe('uploadFiles (http)', () => {
+    const file = new File(['0123456789'], 'data.bin', { type: 'application/octet-stream' });
+
+    it('sends the file in chunks with Content-Range', async () => {
+        const server = createServer();
+        const [result] = await upload(file, { fetch: server.fetch, resumeStore: createMemoryResumeStore() });
+
+        expect(result.status).toBe('uploaded');
+        expect(result.bytesUploaded).toBe(10);
+        expect(result.response).toEqual({ received: 10 });
+        expect(server.requests).toEqual([
+            { method: 'POST', range: 'bytes 0-3/10' },
+            { method: 'POST', range: 'bytes 4-7/10' },
+            { method: 'POST', range: 'bytes 8-9/10' }
+        ]);
+    });
+
+    it('resumes from the offset the server reports', async () => {
+        const resumeStore = createMemoryResumeStore();
+
+        // 400 is not retried, the second chunk is lost and the upload id stays in the store
+        const server = createServer([200, 400]);
+        const [failed] = await upload(file, { fetch: server.fetch, resumeStore });
+        expect(failed.status).toBe('failed');
+        expect(failed.bytesUploaded).toBe(4);
+
+        server.requests.length = 0;
+        const [result] = await upload(file, { fetch: server.fetch, resumeStore });
+
+        expect(result.status).toBe('uploaded');
+        expect(server.requests).toEqual([
+            { method: 'HEAD', range: undefined },
+            { method: 'POST', range: 'bytes 4-7/10' },
+            { method: 'POST', range: 'bytes 8-9/10' }
+        ]);
+    });
+
+    it('does not resume another file with the same name and size', async () => {
+        const resumeStore = createMemoryResumeStore();
+        const server = createServer([200, 400]);
+        await upload(file, { fetch: server.fetch, resumeStore });
+
+        server.requests.length = 0;
+        const other = new File(['abcdefghij'], 'data.bin', { type: 'application/octet-stream' });
+        const [result] = await upload(other, { fetch: server.fetch, resumeStore });
+
+        expect(result.status).toBe('uploaded');
+        expect(server.requests).toEqual([
+            { method: 'POST', range: 'bytes 0-3/10' },
+            { method: 'POST', range: 'bytes 4-7/10' },
+            { method: 'POST', range: 'bytes 8-9/10' }
+        ]);
+    });
+
+    it('retries a failed chunk after asking the server for its offset', async () => {
+        const server = createServer([200, 503]);
+        const [result] = await upload(file, { fetch: server.fetch, resumeStore: createMemoryResumeStore() });
+
+        expect(result.status).toBe('uploaded');
+        expect(server.requests).toEqual([
+            { method: 'POST', range: 'bytes 0-3/10' },
+            { method: 'POST', range: 'bytes 4-7/10' },
+            { method: 'HEAD', range: undefined },
+            { method: 'POST', range: 'bytes 4-7/10' },
+            { method: 'POST', range: 'bytes 8-9/10' }
+        ]);
+    });
+
+    it('fails instead of looping when the offset does not advance', async () => {
+        const server = createServer([], true);
+        const [result] = await upload(file, { fetch: server.fetch, resumeStore: createMemoryResumeStore() });
+
+        expect(result.status).toBe('failed');
+        expect(result.error?.message).toMatch(/did not advance/);
+        expect(server.requests).toHaveLength(1);
+    });
+});
@@ -0,0 +1,471 @@
+import { ProcessedFile, UnProcessedFile } from '../types/common';
+import { UploadOptions, UploadResult, UploadResumeStore } from '../types/upload';
+import { createAbortError, isAbortError, throwIfAborted } from './abort.utils';
+import { mapWithConcurrency } from './concurrency.utils';
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const TUS_VERSION = '1.0.0';
+const RESUME_KEY_PREFIX = 'nextjs-media-helper:upload:';
+// Bytes hashed at the start and at the end of a file for its resume key
+const FINGERPRINT_SAMPLE_SIZE = 64 * 1024;
+
+/**
+ * Request that failed with an HTTP status, kept to decide whether a retry makes sense
+ */
+export class UploadHttpError extends Error {
+    constructor(message: string, readonly status: number) {
+        super(message);
+        this.name = 'UploadHttpError';
+    }
+}
+
+export interface RetryOptions {
+    retries: number;
+    retryDelay: number;
+    maxRetryDelay: number;
+    signal?: AbortSignal;
+}
+
+/**
+ * Network errors, timeouts, rate limiting, offset conflicts and server errors are worth retrying
+ */
+export function isRetryableError(error: unknown): boolean {
+    if (isAbortError(error)) return false;
+    if (error instanceof UploadHttpError) {
+        return error.status >= 500 || [408, 409, 423, 429].includes(error.status);
+    }
+    return true;
+}
+
+/**
+ * Wait before the next attempt, cut short by an abort
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+        throwIfAborted(signal);
+        const handleAbort = () => {
+            clearTimeout(timer);
+            reject(createAbortError());
+        };
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', handleAbort);
+            resolve();
+        }, ms);
+        signal?.addEventListener('abort', handleAbort, { once: true });
+    });
+}
+
+/**
+ * Run a task, retrying retryable failures with exponential backoff (retryDelay, 2x, 4x... up to maxRetryDelay)
+ */
+export async function withRetry<T>(task: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        throwIfAborted(options.signal);
+        try {
+            return await task(attempt);
+        } catch (error) {
+            if (attempt >= options.retries || !isRetryableError(error) || options.signal?.aborted) {
+                throw options.signal?.aborted ? createAbortError() : error;
+            }
+            await wait(Math.min(options.maxRetryDelay, options.retryDelay * 2 ** attempt), options.signal);
+        }
+    }
+}
+
+/**
+ * Resolve the retry settings shared by the uploaders
+ */
+export function getRetryOptions(options: Pick<UploadOptions, 'retries' | 'retryDelay' | 'maxRetryDelay' | 'signal'>): RetryOptions {
+    return {
+        retries: options.retries ?? 3,
+        retryDelay: options.retryDelay ?? 1000,
+        maxRetryDelay: options.maxRetryDelay ?? 30000,
+        signal: options.signal
+    };
+}
+
+/**
+ * Resolve static or per-request headers
+ */
+export async function resolveHeaders(headers: UploadOptions['headers']): Promise<Record<string, string>> {
+    if (!headers) return {};
+    return typeof headers === 'function' ? headers() : headers;
+}
+
+/**
+ * Parse a response body as JSON when possible, as text otherwise
+ */
+export async function readResponseBody(response: Response): Promise<unknown> {
+    const text = await response.text().catch(() => '');
+    if (!text) return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+}
+
+/**
+ * Throw for non-2xx responses
+ */
+export function assertResponseOk(response: Response, action: string): void {
+    if (!response.ok) {
+        throw new UploadHttpError(`${action} failed with status ${response.status}`, response.status);
+    }
+}
+
+/**
+ * The file that gets uploaded for a processing result (processed output, original as fallback)
+ */
+export function getUploadableFile(result: ProcessedFile | UnProcessedFile): File | undefined {
+    if (result.processType !== 'processed') return undefined;
+    return result.processed.file || result.originalFile;
+}
+
+/**
+ * In-memory resume store (used when localStorage is not available)
+ */
+export function createMemoryResumeStore(): UploadResumeStore {
+    const entries = new Map<string, string>();
+    return {
+        get: (key) => entries.get(key) ?? null,
+        set: (key, value) => { entries.set(key, value); },
+        remove: (key) => { entries.delete(key); }
+    };
+}
+
+const memoryResumeStore = createMemoryResumeStore();
+
+/**
+ * localStorage backed resume store, survives page reloads
+ */
+function getDefaultResumeStore(): UploadResumeStore {
+    try {
+        if (typeof localStorage === 'undefined') return memoryResumeStore;
+        return {
+            get: (key) => localStorage.getItem(key),
+            set: (key, value) => localStorage.setItem(key, value),
+            remove: (key) => localStorage.removeItem(key)
+        };
+    } catch {
+        // Storage access can throw (privacy modes, sandboxed iframes)
+        return memoryResumeStore;
+    }
+}
+
+/**
+ * Base64 encode a UTF-8 string (tus Upload-Metadata values)
+ */
+function toBase64(value: string): string {
+    const bytes = new TextEncoder().encode(value);
+    let binary = '';
+    bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+    return btoa(binary);
+}
+
+/**
+ * Resolve a Location header against the upload endpoint
+ */
+function resolveUrl(location: string, endpoint: string): string {
+    const base = typeof window !== 'undefined' ? new URL(endpoint, window.location.href) : new URL(endpoint);
+    return new URL(location, base).toString();
+}
+
+/**
+ * Content fingerprint for the resume key: a 53-bit hash (cyrb53) of the first and last 64 KB.
+ * Name and size alone are shared by many files (camera "image.webp", fixed-size resizes), and
+ * lastModified changes every time a file is processed again, so it can't tell them apart.
+ */
+async function getFileFingerprint(file: Blob): Promise<string> {
+    const samples = [new Uint8Array(await file.slice(0, FINGERPRINT_SAMPLE_SIZE).arrayBuffer())];
+    if (file.size > FINGERPRINT_SAMPLE_SIZE) {
+        samples.push(new Uint8Array(await file.slice(-FINGERPRINT_SAMPLE_SIZE).arrayBuffer()));
+    }
+
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+    for (const bytes of samples) {
+        for (let i = 0; i < bytes.length; i++) {
+            h1 = Math.imul(h1 ^ bytes[i], 2654435761);
+            h2 = Math.imul(h2 ^ bytes[i], 1597334677);
+        }
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Random id for http uploads, the server uses it to stitch chunks together
+ */
+function createUploadId(): string {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+interface UploadSession {
+    url: string;        // Where chunks are sent (tus upload URL, http endpoint)
+    uploadId: string;   // Stored in the resume store
+    offset: number;     // Bytes the server already has
+}
+
+interface ProtocolHandler {
+    start(storedId: string | null): Promise<UploadSession>;
+    getOffset(session: UploadSession): Promise<number>;
+    sendChunk(session: UploadSession, chunk: Blob, offset: number): Promise<{ offset: number; response?: unknown }>;
+}
+
+type FetchFunction = typeof fetch;
+
+/**
+ * Generic http protocol:
+ *   POST endpoint with Content-Range, X-Upload-Id, X-File-Name, X-File-Type (and X-Upload-Metadata) per chunk
+ *   HEAD endpoint with X-Upload-Id returns the stored size in Upload-Offset (404 when unknown)
+ */
+function createHttpHandler(file: File, metadata: Record<string, string>, options: UploadOptions, fetchFn: FetchFunction): ProtocolHandler {
+    const baseHeaders = (uploadId: string) => ({
+        'X-Upload-Id': uploadId,
+        'X-File-Name': encodeURIComponent(file.name),
+        'X-File-Type': file.type || 'application/octet-stream',
+        ...(Object.keys(metadata).length > 0 && { 'X-Upload-Metadata': encodeURIComponent(JSON.stringify(metadata)) })
+    });
+
+    const getOffset = async (session: UploadSession) => {
+        const response = await fetchFn(options.endpoint, {
+            method: 'HEAD',
+            headers: { ...(await resolveHeaders(options.headers)), ...baseHeaders(session.uploadId) },
+            signal: options.signal
+        });
+        if (response.status === 404) return 0;
+        assertResponseOk(response, 'Upload status request');
+        return Number(response.headers.get('Upload-Offset')) || 0;
+    };
+
+    return {
+        async start(storedId) {
+            if (storedId) {
+                const session = { url: options.endpoint, uploadId: storedId, offset: 0 };
+                session.offset = await getOffset(session);
+                return session;
+            }
+            return { url: options.endpoint, uploadId: createUploadId(), offset: 0 };
+        },
+        getOffset,
+        async sendChunk(session, chunk, offset) {
+            const end = offset + chunk.size;
+            const response = await fetchFn(session.url, {
+                method: 'POST',
+                headers: {
+                    ...(await resolveHeaders(options.headers)),
+                    ...baseHeaders(session.uploadId),
+                    'Content-Type': 'application/octet-stream',
+                    'Content-Range': file.size === 0 ? 'bytes */0' : `bytes ${offset}-${end - 1}/${file.size}`
+                },
+                body: chunk,
+                signal: options.signal
+            });
+            assertResponseOk(response, 'Chunk upload');
+
+            const serverOffset = response.headers.get('Upload-Offset');
+            return {
+                offset: serverOffset !== null ? Number(serverOffset) : end,
+                response: end >= file.size ? await readResponseBody(response) : undefined
+            };
+        }
+    };
+}
+
+/**
+ * tus 1.0.0 core protocol with the creation extension (https://tus.io/protocols/resumable-upload)
+ */
+function createTusHandler(file: File, metadata: Record<string, string>, options: UploadOptions, fetchFn: FetchFunction): ProtocolHandler {
+    const tusMetadata = Object.entries({ filename: file.name, filetype: file.type, ...metadata })
+        .filter(([, value]) => value !== '')
+        .map(([key, value]) => `${key} ${toBase64(value)}`)
+        .join(',');
+
+    const getOffset = async (session: UploadSession) => {
+        const response = await fetchFn(session.url, {
+            method: 'HEAD',
+            headers: { ...(await resolveHeaders(options.headers)), 'Tus-Resumable': TUS_VERSION },
+            signal: options.signal
+        });
+        assertResponseOk(response, 'Upload status request');
+        return Number(response.headers.get('Upload-Offset')) || 0;
+    };
+
+    const create = async (): Promise<UploadSession> => {
+        const response = await fetchFn(options.endpoint, {
+            method: 'POST',
+            headers: {
+                ...(await resolveHeaders(options.headers)),
+                'Tus-Resumable': TUS_VERSION,
+                'Upload-Length': String(file.size),
+                'Upload-Metadata': tusMetadata
+            },
+            signal: options.signal
+        });
+        assertResponseOk(response, 'Upload creation');
+
+        const location = response.headers.get('Location');
+        if (!location) {
+            throw new Error('tus server did not return a Location header');
+        }
+        const url = resolveUrl(location, options.endpoint);
+        return { url, uploadId: url, offset: 0 };
+    };
+
+    return {
+        async start(storedUrl) {
+            if (storedUrl) {
+                const session = { url: storedUrl, uploadId: storedUrl, offset: 0 };
+                try {
+                    session.offset = await getOffset(session);
+                    return session;
+                } catch (error) {
+                    // Expired or unknown uploads (404/410) start over
+                    if (!(error instanceof UploadHttpError) || isRetryableError(error)) throw error;
+                }
+            }
+            return create();
+        },
+        getOffset,
+        async sendChunk(session, chunk, offset) {
+            const response = await fetchFn(session.url, {
+                method: 'PATCH',
+                headers: {
+                    ...(await resolveHeaders(options.headers)),
+                    'Tus-Resumable': TUS_VERSION,
+                    'Upload-Offset': String(offset),
+                    'Content-Type': 'application/offset+octet-stream'
+                },
+                body: chunk,
+                signal: options.signal
+            });
+            assertResponseOk(response, 'Chunk upload');
+
+            const serverOffset = response.headers.get('Upload-Offset');
+            return {
+                offset: serverOffset !== null ? Number(serverOffset) : offset + chunk.size,
+                response: await readResponseBody(response)
+            };
+        }
+    };
+}
+
+/**
+ * Upload a single file in chunks, resuming from what the server already has
+ */
+async function uploadSingleFile(
+    result: ProcessedFile,
+    file: File,
+    options: UploadOptions,
+    store: UploadResumeStore,
+    onBytes: (bytes: number) => void
+): Promise<Pick<UploadResult, 'uploadUrl' | 'bytesUploaded' | 'response'>> {
+    const fetchFn: FetchFunction = options.fetch || globalThis.fetch.bind(globalThis);
+    const protocol = options.protocol || 'http';
+    const metadata = options.metadata?.(result) || {};
+    const handler = protocol === 'tus'
+        ? createTusHandler(file, metadata, options, fetchFn)
+        : createHttpHandler(file, metadata, options, fetchFn);
+
+    const resume = options.resume !== false;
+    const fileKey = options.resumeKey?.(result)
+        ?? (resume ? `${file.name}:${file.size}:${file.type}:${await getFileFingerprint(file)}` : '');
+    const resumeKey = `${RESUME_KEY_PREFIX}${protocol}:${options.endpoint}:${fileKey}`;
+    const retryOptions = getRetryOptions(options);
+    const chunkSize = Math.max(1, options.chunkSize || DEFAULT_CHUNK_SIZE);
+
+    const storedId = resume ? await store.get(resumeKey) : null;
+    const session = await withRetry(() => handler.start(storedId), retryOptions);
+    if (resume) {
+        await store.set(resumeKey, session.uploadId);
+    }
+    onBytes(session.offset);
+
+    let response: unknown;
+    let offset = session.offset;
+    do {
+        const sent = await withRetry(async (attempt) => {
+            // After a failure, ask the server how much it actually stored
+            if (attempt > 0) {
+                offset = await handler.getOffset(session);
+                onBytes(offset);
+            }
+            return handler.sendChunk(session, file.slice(offset, offset + chunkSize), offset);
+        }, retryOptions);
+
+        // A server that never moves the offset forward would keep this loop going forever
+        if (sent.offset <= offset && offset < file.size) {
+            throw new Error(`Upload offset did not advance past ${offset} bytes`);
+        }
+        offset = sent.offset;
+        response = sent.response;
+        onBytes(offset);
+    } while (offset < file.size);
+
+    if (resume) {
+        await store.remove(resumeKey);
+    }
+
+    return { uploadUrl: session.uploadId, bytesUploaded: offset, response };
+}
+
+/**
+ * Upload processed files in chunks with retry, backoff and resume (generic http endpoint or tus).
+ * UnProcessedFile entries are skipped, results keep the input order.
+ */
+export async function uploadFiles(
+    files: (ProcessedFile | UnProcessedFile)[],
+    options: UploadOptions
+): Promise<UploadResult[]> {
+    const store = options.resumeStore || getDefaultResumeStore();
+    const sizes = files.map(result => getUploadableFile(result)?.size || 0);
+    const uploaded = files.map(() => 0);
+    const totalBytes = sizes.reduce((sum, size) => sum + size, 0);
+
+    const reportProgress = (index: number, bytes: number) => {
+        uploaded[index] = bytes;
+        const done = uploaded.reduce((sum, value) => sum + value, 0);
+        options.onProgress?.({
+            currentFile: index + 1,
+            totalFiles: files.length,
+            fileName: getUploadableFile(files[index])?.name || files[index].meta.name,
+            fileId: files[index].id,
+            stage: bytes >= sizes[index] ? 'completed' : 'uploading',
+            percentage: totalBytes > 0 ? Math.round((done / totalBytes) * 100) : 100,
+            bytesUploaded: bytes,
+            bytesTotal: sizes[index]
+        });
+    };
+
+    return mapWithConcurrency(files, options.concurrency || 1, async (result, index): Promise<UploadResult> => {
+        const file = getUploadableFile(result);
+        if (result.processType !== 'processed' || !file) {
+            return { status: 'skipped', fileName: result.meta.name, file: result, bytesUploaded: 0 };
+        }
+
+        try {
+            const uploadedFile = await uploadSingleFile(result, file, options, store, bytes => reportProgress(index, bytes));
+            return { status: 'uploaded', fileName: file.name, file: result, ...uploadedFile };
+        } catch (error) {
+            const aborted = isAbortError(error) || !!options.signal?.aborted;
+            return {
+                status: aborted ? 'aborted' : 'failed',
+                fileName: file.name,
+                file: result,
+                bytesUploaded: uploaded[index],
+                error: {
+                    fileName: file.name,
+                    errorCode: aborted ? 'aborted' : 'upload-failed',
+                    message: aborted
+                        ? 'Upload was aborted'
+                        : error instanceof Error ? error.message : 'Upload failed'
+                }
+            };
+        }
+    });
+}
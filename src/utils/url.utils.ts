@@ -0,0 +1,22 @@
+import { ExportedFile, ProcessedFile } from '../types/common';
+
+/**
+ * Revoke the object URLs created for a (possibly partial) processing result, extracted files included
+ */
+export function revokeFileUrls(result: {
+    processed?: ExportedFile;
+    thumbnail?: ExportedFile;
+    variants?: ProcessedFile['variants'];
+    children?: ProcessedFile['children'];
+}): void {
+    const files = [result.processed, result.thumbnail, ...Object.values(result.variants || {})];
+    for (const file of files) {
+        if (file?.url?.startsWith('blob:')) {
+            URL.revokeObjectURL(file.url);
+        }
+    }
+
+    for (const child of result.children || []) {
+        if (child.processType === 'processed') revokeFileUrls(child);
+    }
+}
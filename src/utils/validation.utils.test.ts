@@ -0,0 +1,31 @@
+import { describe, expect, it } from '@jest/globals';
+import { checkFileTypeMismatch, detectFileType, findRuleForFile, resolveMimeType, validateFile } from './validation.utils';
+
+describe('resolveMimeType', () => {
+    const rules = [
+        { allowedMimeTypes: ['video/*'], maxFileSize: 100 },
+        { allowedMimeTypes: ['audio/*'], maxFileSize: 1000 }
+    ];
+
+    it('keeps audio/webm when file-type reports the container as video/webm', () => {
+        const file = { name: 'recording.webm', size: 500, type: 'audio/webm' };
+        const mimeType = resolveMimeType(file, 'video/webm');
+
+        expect(mimeType).toBe('audio/webm');
+        expect(detectFileType({ name: file.name, type: mimeType })).toBe('audio');
+        expect(findRuleForFile({ type: mimeType }, rules)).toBe(rules[1]);
+        expect(validateFile({ ...file, type: mimeType }, { allowedMimeTypes: ['audio/*'] })).toBeNull();
+        expect(checkFileTypeMismatch(file, 'video/webm')).toBeNull();
+    });
+
+    it('keeps an Office type sniffed as a zip', () => {
+        const type = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+        expect(resolveMimeType({ name: 'report.docx', size: 1, type }, 'application/zip')).toBe(type);
+    });
+
+    it('lets the sniffed type win within the same family or when they are incompatible', () => {
+        expect(resolveMimeType({ name: 'photo.jpg', size: 1, type: 'image/jpg' }, 'image/jpeg')).toBe('image/jpeg');
+        expect(resolveMimeType({ name: 'photo.png', size: 1, type: 'image/png' }, 'application/x-msdownload')).toBe('application/x-msdownload');
+        expect(resolveMimeType({ name: 'photo.heic', size: 1, type: '' }, 'image/heic')).toBe('image/heic');
+    });
+});
@@ -0,0 +1,413 @@
+import { FileError, RuleInfo, SelectionFile } from '../types/common';
+import { ImageRuleInfo } from '../types/image';
+import { DocumentInfo, DocumentRuleInfo } from '../types/document';
+import { ArchiveInfo, ArchiveRuleInfo } from '../types/archive';
+import { createFileError } from './i18n.utils';
+import { isUnsafeEntryPath } from './archive.reader.utils';
+
+/**
+ * Minimal file description shared by browser Files and server-side uploads
+ */
+export interface FileDescriptor {
+    name: string;
+    size: number;
+    type: string;
+}
+
+const ARCHIVE_MIME_TYPES = [
+    'application/zip',
+    'application/x-zip-compressed',
+    'application/vnd.rar',
+    'application/x-rar-compressed',
+    'application/x-7z-compressed',
+    'application/x-tar',
+    'application/x-gtar',
+    'application/gzip',
+    'application/x-gzip',
+    'application/x-compressed-tar'
+];
+
+/**
+ * Detect file type based on MIME type and extension
+ */
+export function detectFileType(file: Pick<FileDescriptor, 'name' | 'type'>): string {
+    const mimeType = file.type.toLowerCase();
+    const extension = file.name.split('.').pop()?.toLowerCase() || '';
+
+    // Check by MIME type first
+    if (mimeType.startsWith('image/')) return 'image';
+    if (mimeType.startsWith('video/')) return 'video';
+    if (mimeType.startsWith('audio/')) return 'audio';
+    if (ARCHIVE_MIME_TYPES.includes(mimeType)) return 'archive';
+    if (mimeType.startsWith('application/pdf') ||
+        mimeType.startsWith('application/msword') ||
+        mimeType.startsWith('application/vnd.') ||
+        mimeType.startsWith('application/json') ||
+        mimeType.startsWith('text/')) return 'document';
+
+    // Check by extension as fallback
+    if (['jpg', 'jpeg', 'png', 'gif', 'webp', 'svg', 'bmp', 'ico', 'tiff', 'avif', 'heic', 'heif'].includes(extension)) {
+        return 'image';
+    }
+    if (['mp4', 'avi', 'mov', 'wmv', 'flv', 'mkv', 'webm', 'm4v', 'mpg', 'mpeg', '3gp'].includes(extension)) {
+        return 'video';
+    }
+    if (['mp3', 'wav', 'ogg', 'aac', 'flac', 'wma', 'm4a', 'opus', 'aiff'].includes(extension)) {
+        return 'audio';
+    }
+    if (['pdf', 'doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'txt', 'rtf', 'odt', 'csv', 'tsv', 'json'].includes(extension)) {
+        return 'document';
+    }
+    if (['zip', 'rar', 'tar', 'gz', 'tgz', '7z'].includes(extension)) {
+        return 'archive';
+    }
+
+    return 'unknown';
+}
+
+/**
+ * Build the basic meta of a file from its name and declared type
+ */
+export function getSelectionFile(file: FileDescriptor): SelectionFile {
+    return {
+        name: file.name,
+        size: file.size,
+        type: detectFileType(file),
+        extension: '.' + file.name.split('.').pop()!.toLowerCase(),
+        mimeType: file.type
+    };
+}
+
+/**
+ * Selection count limits of all rules, the most restrictive one wins
+ */
+export function getSelectionLimits(rules?: RuleInfo[]): { min?: number; max?: number } {
+    const limits: { min?: number; max?: number } = {};
+
+    rules?.forEach(rule => {
+        if (rule.minSelectionCount) {
+            limits.min = limits.min === undefined ? rule.minSelectionCount : Math.max(limits.min, rule.minSelectionCount);
+        }
+        if (rule.maxSelectionCount) {
+            limits.max = limits.max === undefined ? rule.maxSelectionCount : Math.min(limits.max, rule.maxSelectionCount);
+        }
+    });
+
+    return limits;
+}
+
+/**
+ * Validate the number of selected files, one entry per file (null when the file can be processed).
+ * Too few files rejects all of them, files past the maximum are rejected with
+ * 'too-many-files' like react-dropzone does.
+ */
+export function validateSelectionCount(
+    files: Pick<FileDescriptor, 'name'>[],
+    rules?: RuleInfo[]
+): (FileError | null)[] {
+    const { min, max } = getSelectionLimits(rules);
+
+    if (min && files.length < min) {
+        return files.map(file => createFileError(file.name, 'too-few-files', { min }));
+    }
+
+    return files.map((file, index) => max && index >= max
+        ? createFileError(file.name, 'too-many-files', { max })
+        : null);
+}
+
+/**
+ * Check if MIME type matches the allowed patterns (supports wildcards like image/*)
+ */
+export function matchesMimeType(fileMimeType: string, allowedMimeTypes: string[]): boolean {
+    return allowedMimeTypes.some(allowed => {
+        if (allowed.endsWith('/*')) {
+            const prefix = allowed.slice(0, -2);
+            return fileMimeType.startsWith(prefix + '/');
+        }
+        return fileMimeType === allowed;
+    });
+}
+
+/**
+ * Validate a single file against rules
+ */
+export function validateFile(file: FileDescriptor, rules?: RuleInfo): FileError | null {
+    if (!rules) return null;
+
+    // Check MIME type
+    if (rules.allowedMimeTypes && !matchesMimeType(file.type, rules.allowedMimeTypes)) {
+        return createFileError(file.name, 'file-invalid-type', { type: file.type });
+    }
+
+    // Check file size
+    if (rules.minFileSize && file.size < rules.minFileSize) {
+        return createFileError(file.name, 'file-too-small', { size: file.size, minSize: rules.minFileSize });
+    }
+
+    if (rules.maxFileSize && file.size > rules.maxFileSize) {
+        return createFileError(file.name, 'file-too-large', { size: file.size, maxSize: rules.maxFileSize });
+    }
+
+    return null;
+}
+
+/**
+ * Parse an aspect ratio given as 'w:h' (or 'w/h') or as a number
+ */
+export function parseAspectRatio(ratio: string | number): number {
+    if (typeof ratio === 'number') return ratio;
+    const [w, h] = ratio.split(/[:/]/).map(Number);
+    return h ? w / h : w;
+}
+
+/**
+ * Validate decoded image dimensions against image rules
+ */
+export function validateImageDimensions(
+    fileName: string,
+    width: number,
+    height: number,
+    rules?: Partial<ImageRuleInfo>
+): FileError | null {
+    if (!rules) return null;
+
+    if (rules.minWidth && width < rules.minWidth) {
+        return createFileError(fileName, 'image-too-narrow', { width, minWidth: rules.minWidth });
+    }
+
+    if (rules.maxWidth && width > rules.maxWidth) {
+        return createFileError(fileName, 'image-too-wide', { width, maxWidth: rules.maxWidth });
+    }
+
+    if (rules.minHeight && height < rules.minHeight) {
+        return createFileError(fileName, 'image-too-short', { height, minHeight: rules.minHeight });
+    }
+
+    if (rules.maxHeight && height > rules.maxHeight) {
+        return createFileError(fileName, 'image-too-tall', { height, maxHeight: rules.maxHeight });
+    }
+
+    const megapixels = (width * height) / 1000000;
+    if (rules.minMegapixels && megapixels < rules.minMegapixels) {
+        return createFileError(fileName, 'image-resolution-too-low', {
+            megapixels: Number(megapixels.toFixed(2)),
+            minMegapixels: rules.minMegapixels
+        });
+    }
+
+    if (rules.allowedAspectRatios && rules.allowedAspectRatios.length > 0) {
+        const tolerance = rules.aspectRatioTolerance ?? 0.01;
+        const actual = width / height;
+        const matches = rules.allowedAspectRatios.some(ratio => {
+            const expected = parseAspectRatio(ratio);
+            return Math.abs(actual - expected) / expected <= tolerance;
+        });
+
+        if (!matches) {
+            return createFileError(fileName, 'image-invalid-aspect-ratio', {
+                width,
+                height,
+                allowed: rules.allowedAspectRatios.join(', ')
+            });
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Validate what was read from a PDF, Office or text document against document rules
+ */
+export function validateDocumentInfo(
+    fileName: string,
+    info: DocumentInfo,
+    rules?: Partial<DocumentRuleInfo>
+): FileError | null {
+    // Invalid JSON is rejected whatever the rules are
+    if (info.validJson === false) {
+        return createFileError(fileName, 'json-invalid', { error: info.jsonError || '' });
+    }
+
+    if (!rules) return null;
+
+    // The pages of a password-protected PDF can't be counted, so maxPages rejects it too
+    const pageLimit = info.format === 'pdf' ? rules.maxPages : undefined;
+    if (info.passwordProtected && (!rules.allowPasswordProtected || pageLimit)) {
+        return createFileError(fileName, info.format === 'pdf' ? 'pdf-password-protected' : 'document-password-protected');
+    }
+
+    if (pageLimit && info.pageCount !== undefined && info.pageCount > pageLimit) {
+        return createFileError(fileName, 'pdf-too-many-pages', { pageCount: info.pageCount, maxPages: pageLimit });
+    }
+
+    if (rules.rejectMacros && info.hasMacros) {
+        return createFileError(fileName, 'document-contains-macros');
+    }
+
+    if (rules.maxRows !== undefined && info.rowCount !== undefined && info.rowCount > rules.maxRows) {
+        return createFileError(fileName, 'document-too-many-rows', { rowCount: info.rowCount, maxRows: rules.maxRows });
+    }
+
+    // Only tables have columns, a JSON file that isn't an array of objects misses all of them
+    if (rules.requiredColumns?.length && (info.format === 'csv' || info.format === 'json')) {
+        const columns = new Set((info.columns || []).map(column => column.trim().toLowerCase()));
+        const missing = rules.requiredColumns.filter(column => !columns.has(column.trim().toLowerCase()));
+        if (missing.length > 0) {
+            return createFileError(fileName, 'document-missing-columns', { columns: missing.join(', ') });
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Archive rules that need the entry list. Path traversal counts unless turned off, so archives
+ * that can't be listed (rar, 7z, broken files) are rejected by default.
+ */
+export function hasArchiveContentRules(rules?: Partial<ArchiveRuleInfo>): boolean {
+    return rules?.maxEntries !== undefined
+        || rules?.maxTotalUncompressedSize !== undefined
+        || rules?.allowedExtensions !== undefined
+        || rules?.rejectPathTraversal !== false;
+}
+
+/**
+ * Validate the entry list of an archive against archive rules (path traversal is rejected by default)
+ */
+export function validateArchiveInfo(
+    fileName: string,
+    info: ArchiveInfo,
+    rules?: Partial<ArchiveRuleInfo>
+): FileError | null {
+    if (rules?.maxEntries !== undefined && info.entryCount > rules.maxEntries) {
+        return createFileError(fileName, 'archive-too-many-entries', { maxEntries: rules.maxEntries });
+    }
+
+    if (rules?.maxTotalUncompressedSize !== undefined && info.totalSize > rules.maxTotalUncompressedSize) {
+        return createFileError(fileName, 'archive-uncompressed-too-large', { maxSize: rules.maxTotalUncompressedSize });
+    }
+
+    // Listing stopped at a limit without the counts showing it (e.g. oversized TAR headers)
+    if (info.truncated) {
+        return rules?.maxTotalUncompressedSize !== undefined
+            ? createFileError(fileName, 'archive-uncompressed-too-large', { maxSize: rules.maxTotalUncompressedSize })
+            : createFileError(fileName, 'archive-too-many-entries', { maxEntries: rules?.maxEntries ?? info.entryCount });
+    }
+
+    const allowedExtensions = rules?.allowedExtensions?.map(extension => extension.replace(/^\./, '').toLowerCase());
+    for (const entry of info.entries) {
+        if (rules?.rejectPathTraversal !== false && isUnsafeEntryPath(entry.name)) {
+            return createFileError(fileName, 'archive-path-traversal', { entry: entry.name });
+        }
+
+        if (allowedExtensions && !entry.isDirectory) {
+            const baseName = entry.name.split(/[\\/]/).pop() || '';
+            const extension = baseName.includes('.') ? baseName.split('.').pop()!.toLowerCase() : '';
+            if (!allowedExtensions.includes(extension)) {
+                return createFileError(fileName, 'archive-extension-not-allowed', { entry: entry.name });
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Generic container formats reported by content sniffing and the file types they may hold
+ */
+const CONTAINER_MIME_TYPES: Record<string, string[]> = {
+    'application/zip': ['document'],              // docx, xlsx, pptx, odt...
+    'application/x-cfb': ['document'],            // doc, xls, ppt
+    'application/xml': ['image', 'document']      // svg, xml based documents
+};
+
+/**
+ * Load file-type, which is ESM-only. The CommonJS build turns import() into require(), which
+ * Node rejects for ESM packages, so Node gets a native import() the compiler can't rewrite.
+ * Browsers keep the plain import() for bundlers (and CSPs without 'unsafe-eval').
+ */
+function loadFileType(): Promise<typeof import('file-type')> {
+    if (typeof window === 'undefined') {
+        const nativeImport = new Function('specifier', 'return import(specifier)') as (specifier: string) => Promise<typeof import('file-type')>;
+        return nativeImport('file-type');
+    }
+    return import('file-type');
+}
+
+/**
+ * Detect the real MIME type from the file's magic bytes (undefined when unknown, e.g. plain text).
+ * Throws when detection can't run, the declared type must not be trusted silently.
+ */
+export async function detectMimeType(file: Blob): Promise<string | undefined> {
+    const { fileTypeFromBuffer } = await loadFileType();
+    // file-type needs at most the first 4100 bytes for detection
+    const header = new Uint8Array(await file.slice(0, 4100).arrayBuffer());
+    const result = await fileTypeFromBuffer(header);
+    return result?.mime;
+}
+
+/**
+ * Compare the declared MIME type with the sniffed one
+ */
+export function checkFileTypeMismatch(file: FileDescriptor, detectedMimeType?: string): FileError | null {
+    const declaredMimeType = file.type.toLowerCase();
+    if (!detectedMimeType || !declaredMimeType || declaredMimeType === detectedMimeType) {
+        return null;
+    }
+
+    const declaredType = detectFileType({ name: file.name, type: declaredMimeType });
+    // No extension fallback for the sniffed type, a renamed executable must not pass as an image
+    const detectedType = detectFileType({ name: '', type: detectedMimeType });
+
+    // Aliases like audio/mp3 vs audio/mpeg resolve to the same file type
+    if (declaredType === detectedType && detectedType !== 'unknown') return null;
+
+    // Audio and video share containers (mp4, webm, ogg)
+    if (['audio', 'video'].includes(declaredType) && ['audio', 'video'].includes(detectedType)) return null;
+
+    if (CONTAINER_MIME_TYPES[detectedMimeType]?.includes(declaredType)) return null;
+
+    return createFileError(file.name, 'file-type-mismatch', { detectedMimeType, declaredMimeType });
+}
+
+/**
+ * MIME type used for rule lookup, validation and routing. The sniffed type wins, except when it only
+ * names a compatible container: file-type reports audio/webm as video/webm and docx as a zip.
+ */
+export function resolveMimeType(file: FileDescriptor, detectedMimeType?: string): string {
+    if (!detectedMimeType || !file.type) return detectedMimeType || file.type;
+
+    const declaredType = detectFileType({ name: file.name, type: file.type });
+    const detectedType = detectFileType({ name: '', type: detectedMimeType });
+    if (declaredType !== detectedType && !checkFileTypeMismatch(file, detectedMimeType)) {
+        return file.type;
+    }
+    return detectedMimeType;
+}
+
+/**
+ * Find the appropriate rule for a file based on its type
+ */
+export function findRuleForFile<T extends RuleInfo>(
+    file: Pick<FileDescriptor, 'type'>,
+    rules?: T[]
+): T | undefined {
+    if (!rules || rules.length === 0) return undefined;
+
+    // Find a rule that matches this file's type
+    for (const rule of rules) {
+        // Check if rule's allowedMimeTypes match this file
+        if (rule.allowedMimeTypes) {
+            if (matchesMimeType(file.type, rule.allowedMimeTypes)) {
+                return rule;
+            }
+        } else {
+            // If no specific mime types, use the first rule as default
+            return rule;
+        }
+    }
+
+    // If no specific rule found, return first rule as fallback
+    return rules[0];
+}
@@ -1,18 +1,33 @@
-import { ProcessedFile, UnProcessedFile, ExportedFile, ProgressCallback } from '../types/common';
+import { ProcessedFile, UnProcessedFile, ExportedFile, ProcessingContext } from '../types/common';
 import { VideoRuleInfo } from '../types/video';
+import { runFFmpeg, qualityToScale } from './ffmpeg.utils';
+import { createAbortError, createAbortedResult, isAbortError, throwIfAborted } from './abort.utils';
+import { revokeFileUrls } from './url.utils';
+import { FileProgressCallback } from './progress.utils';
 
 /**
  * Generate thumbnail from video
  */
 async function generateVideoThumbnail(
     file: File,
-    rules?: VideoRuleInfo
+    rules?: VideoRuleInfo,
+    signal?: AbortSignal
 ): Promise<ExportedFile> {
-    return new Promise((resolve, reject) => {
+    let handleAbort: (() => void) | undefined;
+    return new Promise<ExportedFile>((resolve, reject) => {
+        throwIfAborted(signal);
+
         const video = document.createElement('video');
         const canvas = document.createElement('canvas');
         const ctx = canvas.getContext('2d');
 
+        handleAbort = () => {
+            URL.revokeObjectURL(video.src);
+            video.removeAttribute('src');
+            reject(createAbortError());
+        };
+        signal?.addEventListener('abort', handleAbort, { once: true });
+
         video.onloadedmetadata = () => {
             // Seek to specific time or 1 second
             video.currentTime = rules?.startAt || 1;
@@ -51,6 +66,7 @@ async function generateVideoThumbnail(
 
             // Convert to image
             thumbCanvas.toBlob((blob) => {
+                if (signal?.aborted) return;
                 if (blob) {
                     const thumbFile = new File([blob], `thumb_${file.name}.jpg`, {
                         type: 'image/jpeg'
@@ -80,19 +96,78 @@ async function generateVideoThumbnail(
 
         video.src = URL.createObjectURL(file);
         video.load();
+    }).finally(() => {
+        // A long-lived signal (e.g. the whole selection's) must not keep the video alive
+        if (handleAbort) signal?.removeEventListener('abort', handleAbort);
     });
 }
 
+const VIDEO_MIME_TYPES: Record<NonNullable<VideoRuleInfo['processedFormat']>, string> = {
+    mp4: 'video/mp4',
+    webm: 'video/webm',
+    avi: 'video/x-msvideo'
+};
+
+/**
+ * Build ffmpeg codec arguments for the target container
+ */
+function getVideoCodecArgs(format: NonNullable<VideoRuleInfo['processedFormat']>, quality: number): string[] {
+    switch (format) {
+        case 'webm':
+            return [
+                '-c:v', 'libvpx-vp9', '-crf', String(qualityToScale(quality, 15, 50)), '-b:v', '0',
+                '-deadline', 'realtime', '-cpu-used', '8',
+                '-c:a', 'libopus'
+            ];
+        case 'avi':
+            return [
+                '-c:v', 'mpeg4', '-q:v', String(qualityToScale(quality, 2, 31)),
+                '-c:a', 'libmp3lame', '-q:a', '4'
+            ];
+        case 'mp4':
+        default:
+            return [
+                '-c:v', 'libx264', '-preset', 'veryfast', '-crf', String(qualityToScale(quality, 18, 35)),
+                '-pix_fmt', 'yuv420p',
+                '-c:a', 'aac', '-b:a', '128k',
+                '-movflags', '+faststart'
+            ];
+    }
+}
+
 /**
- * Extract video clip
+ * Extract video clip (trim to startAt/duration and convert to processedFormat) with ffmpeg.wasm
  */
 async function extractVideoClip(
     file: File,
-    _rules?: VideoRuleInfo
+    rules?: VideoRuleInfo,
+    onClipProgress?: (ratio: number) => void,
+    signal?: AbortSignal
 ): Promise<File> {
-    // For now, return original file
-    // In a real implementation, you'd use MediaRecorder API or server-side processing
-    return file;
+    const format = rules?.processedFormat || 'mp4';
+    const quality = rules?.processedCompressQuality ?? 75;
+    const baseName = file.name.replace(/\.[^.]+$/, '');
+
+    const inputArgs: string[] = [];
+    const args: string[] = [];
+    if (rules?.startAt && rules.startAt > 0) {
+        inputArgs.push('-ss', String(rules.startAt));
+    }
+    if (rules?.duration && rules.duration > 0) {
+        args.push('-t', String(rules.duration));
+    }
+    args.push(...getVideoCodecArgs(format, quality));
+
+    return runFFmpeg({
+        input: file,
+        outputName: `${baseName}.${format}`,
+        outputMimeType: VIDEO_MIME_TYPES[format],
+        inputArgs,
+        args,
+        duration: rules?.duration,
+        onProgress: onClipProgress,
+        signal
+    });
 }
 
 /**
@@ -100,9 +175,14 @@ async function extractVideoClip(
  */
 async function compressVideo(
     file: File,
-    _rules?: VideoRuleInfo
+    _rules?: VideoRuleInfo,
+    signal?: AbortSignal,
+    onCompressProgress?: (ratio: number) => void
 ): Promise<File> {
-    return new Promise((resolve, reject) => {
+    let handleAbort: (() => void) | undefined;
+    return new Promise<File>((resolve, reject) => {
+        throwIfAborted(signal);
+
         const video = document.createElement('video');
         const canvas = document.createElement('canvas');
         const ctx = canvas.getContext('2d');
@@ -125,7 +205,22 @@ async function compressVideo(
                 }
             };
 
+            // Stopping the recorder ends the loop below, onstop then rejects
+            handleAbort = () => {
+                video.pause();
+                if (mediaRecorder.state !== 'inactive') {
+                    mediaRecorder.stop();
+                }
+            };
+            signal?.addEventListener('abort', handleAbort, { once: true });
+
             mediaRecorder.onstop = () => {
+                URL.revokeObjectURL(video.src);
+                if (signal?.aborted) {
+                    reject(createAbortError());
+                    return;
+                }
+
                 const blob = new Blob(chunks, { type: 'video/webm' });
                 const compressedFile = new File([blob], file.name.replace(/\.[^.]+$/, '.webm'), {
                     type: 'video/webm'
@@ -137,12 +232,18 @@ async function compressVideo(
             mediaRecorder.start();
             video.play();
 
-            // Draw frames to canvas
+            // Draw frames to canvas, recording runs in real time so playback position is the progress
+            let reportedRatio = 0;
             const drawFrame = () => {
                 if (!video.paused && !video.ended) {
                     ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
+                    const ratio = video.duration ? video.currentTime / video.duration : 0;
+                    if (ratio - reportedRatio >= 0.01) {
+                        reportedRatio = ratio;
+                        onCompressProgress?.(ratio);
+                    }
                     requestAnimationFrame(drawFrame);
-                } else {
+                } else if (mediaRecorder.state !== 'inactive') {
                     mediaRecorder.stop();
                 }
             };
@@ -155,6 +256,8 @@ async function compressVideo(
 
         video.src = URL.createObjectURL(file);
         video.load();
+    }).finally(() => {
+        if (handleAbort) signal?.removeEventListener('abort', handleAbort);
     });
 }
 
@@ -164,9 +267,8 @@ async function compressVideo(
 export async function processVideoFile(
     file: File,
     rules?: VideoRuleInfo,
-    onProgress?: ProgressCallback,
-    currentIndex?: number,
-    totalFiles?: number
+    onProgress?: FileProgressCallback,
+    context?: ProcessingContext
 ): Promise<ProcessedFile | UnProcessedFile> {
     const extension = '.' + file.name.split('.').pop()!.toLowerCase();
     const meta = {
@@ -176,46 +278,47 @@ export async function processVideoFile(
         extension,
         mimeType: file.type
     };
+    const signal = context?.signal;
 
+    let processed: ExportedFile | undefined;
+    let thumbnail: ExportedFile | undefined;
     try {
         // Progress: processing
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'processing',
-                percentage: Math.round(((currentIndex + 0.3) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('processing', 0.3);
 
-        // Process video (compress or extract clip)
+        // Process video (trim and/or convert with ffmpeg, MediaRecorder as compression fallback)
         let processedFile = file;
-        if (rules?.processedCompressQuality && rules.processedCompressQuality < 100) {
-            if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-                onProgress({
-                    currentFile: currentIndex + 1,
-                    totalFiles,
-                    fileName: file.name,
-                    stage: 'compressing',
-                    percentage: Math.round(((currentIndex + 0.5) / totalFiles) * 100)
-                });
+        let processedWith: ExportedFile['processedWith'];
+        const shouldCompress = !!rules?.processedCompressQuality && rules.processedCompressQuality < 100;
+        if (rules?.startAt || rules?.duration || rules?.processedFormat || shouldCompress) {
+            const reportClipProgress = (ratio: number) => {
+                onProgress?.('compressing', 0.3 + ratio * 0.5);
+            };
+
+            reportClipProgress(0);
+            try {
+                processedFile = await extractVideoClip(file, rules, reportClipProgress, signal);
+                processedWith = 'ffmpeg';
+            } catch (error) {
+                // Trimming/conversion can't be emulated without ffmpeg, plain compression can
+                if (rules?.startAt || rules?.duration || rules?.processedFormat || isAbortError(error)) {
+                    throw error;
+                }
+                processedFile = await compressVideo(file, rules, signal, reportClipProgress);
+                processedWith = 'media-recorder';
             }
-            processedFile = await compressVideo(file, rules);
-        } else if (rules?.duration) {
-            // Extract clip if duration is specified
-            processedFile = await extractVideoClip(file, rules);
         }
 
         // Create processed object
-        const processed: ExportedFile = {
+        processed = {
             name: processedFile.name,
             size: processedFile.size,
             type: 'video',
-            extension: processedFile.name.includes('.webm') ? '.webm' : extension,
+            extension: '.' + processedFile.name.split('.').pop()!.toLowerCase(),
             mimeType: processedFile.type,
             file: processedFile,
-            url: URL.createObjectURL(processedFile)
+            url: URL.createObjectURL(processedFile),
+            ...(processedWith && { processedWith })
         };
 
         // Generate blob if needed
@@ -226,32 +329,16 @@ export async function processVideoFile(
         // Note: Base64 for videos is usually not recommended due to size
 
         // Generate thumbnail
-        let thumbnail: ExportedFile | undefined;
         try {
-            if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-                onProgress({
-                    currentFile: currentIndex + 1,
-                    totalFiles,
-                    fileName: file.name,
-                    stage: 'generating-thumbnail',
-                    percentage: Math.round(((currentIndex + 0.8) / totalFiles) * 100)
-                });
-            }
-            thumbnail = await generateVideoThumbnail(file, rules);
+            onProgress?.('generating-thumbnail', 0.8);
+            thumbnail = await generateVideoThumbnail(file, rules, signal);
         } catch (error) {
+            if (isAbortError(error)) throw error;
             console.warn('Failed to generate video thumbnail:', error);
         }
 
         // Progress: completed
-        if (onProgress && currentIndex !== undefined && totalFiles !== undefined) {
-            onProgress({
-                currentFile: currentIndex + 1,
-                totalFiles,
-                fileName: file.name,
-                stage: 'completed',
-                percentage: Math.round(((currentIndex + 1) / totalFiles) * 100)
-            });
-        }
+        onProgress?.('completed', 1);
 
         return {
             processType: 'processed',
@@ -261,6 +348,11 @@ export async function processVideoFile(
             thumbnail
         };
     } catch (error) {
+        if (isAbortError(error)) {
+            revokeFileUrls({ processed, thumbnail });
+            return createAbortedResult(file, meta);
+        }
+
         return {
             processType: 'unprocessed',
             meta,
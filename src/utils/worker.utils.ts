@@ -0,0 +1,157 @@
+import { ResizeGeometry } from './resize.utils';
+
+/**
+ * Image encoding job sent to a worker
+ */
+export interface WorkerRenderJob {
+    bitmap: ImageBitmap;
+    geometry: ResizeGeometry;
+    mimeType: string;
+    fallbackMimeType: string;
+    quality: number;
+    fill?: string;
+}
+
+interface PooledWorker {
+    worker: Worker;
+    pending: Map<number, { resolve: (blob: Blob) => void; reject: (error: Error) => void }>;
+}
+
+// Never more workers than spare cores, a few are enough to keep encoding off the main thread
+const MAX_WORKERS = 4;
+
+let workerPool: PooledWorker[] = [];
+let workerUrl: string | null = null;
+let workersUnavailable = false;
+let nextJobId = 0;
+
+/**
+ * Worker entry point, serialized with toString() so it must not reference anything outside itself
+ */
+function imageWorkerMain() {
+    self.onmessage = async (event: MessageEvent) => {
+        const { id, bitmap, geometry, mimeType, fallbackMimeType, quality, fill } = event.data;
+        try {
+            const canvas = new OffscreenCanvas(geometry.width, geometry.height);
+            const ctx = canvas.getContext('2d');
+            if (ctx) {
+                if (fill) {
+                    ctx.fillStyle = fill;
+                    ctx.fillRect(0, 0, canvas.width, canvas.height);
+                }
+                ctx.imageSmoothingQuality = 'high';
+                ctx.drawImage(
+                    bitmap,
+                    geometry.sx, geometry.sy, geometry.sw, geometry.sh,
+                    geometry.dx, geometry.dy, geometry.dw, geometry.dh
+                );
+            }
+            bitmap.close();
+
+            let blob = await canvas.convertToBlob({ type: mimeType, quality });
+            if (blob.type !== mimeType) {
+                blob = await canvas.convertToBlob({ type: fallbackMimeType, quality });
+            }
+            self.postMessage({ id, blob });
+        } catch (error) {
+            self.postMessage({ id, error: error instanceof Error ? error.message : 'Failed to encode image' });
+        }
+    };
+}
+
+/**
+ * Check for Worker, OffscreenCanvas encoding and ImageBitmap support
+ */
+export function canUseImageWorker(): boolean {
+    return !workersUnavailable &&
+        typeof Worker !== 'undefined' &&
+        typeof OffscreenCanvas !== 'undefined' &&
+        typeof createImageBitmap !== 'undefined' &&
+        typeof OffscreenCanvas.prototype.convertToBlob === 'function';
+}
+
+/**
+ * Give up on workers (e.g. blocked by a CSP without worker-src blob:) and fail their pending jobs
+ */
+function disableWorkers(reason: string): void {
+    workersUnavailable = true;
+    for (const { worker, pending } of workerPool) {
+        worker.terminate();
+        pending.forEach(({ reject }) => reject(new Error(reason)));
+    }
+    workerPool = [];
+}
+
+/**
+ * Start a new worker from the inline source
+ */
+function createWorker(): PooledWorker {
+    if (!workerUrl) {
+        const source = `(${imageWorkerMain.toString()})();`;
+        workerUrl = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+    }
+
+    const pooled: PooledWorker = { worker: new Worker(workerUrl), pending: new Map() };
+
+    pooled.worker.onmessage = (event: MessageEvent) => {
+        const { id, blob, error } = event.data;
+        const job = pooled.pending.get(id);
+        if (!job) return;
+
+        pooled.pending.delete(id);
+        if (error) {
+            job.reject(new Error(error));
+        } else {
+            job.resolve(blob);
+        }
+    };
+
+    pooled.worker.onerror = () => disableWorkers('Image worker failed to start');
+
+    return pooled;
+}
+
+/**
+ * Pick the least busy worker, growing the pool up to the number of spare cores
+ */
+function getWorker(): PooledWorker {
+    const poolSize = Math.min(MAX_WORKERS, Math.max(1, (navigator.hardwareConcurrency || 2) - 1));
+    const idle = workerPool.find(pooled => pooled.pending.size === 0);
+    if (idle) return idle;
+
+    if (workerPool.length < poolSize) {
+        const pooled = createWorker();
+        workerPool.push(pooled);
+        return pooled;
+    }
+
+    return workerPool.reduce((least, pooled) => pooled.pending.size < least.pending.size ? pooled : least);
+}
+
+/**
+ * Draw and encode an image on an OffscreenCanvas in a worker.
+ * Resolves null when workers can't be used, the caller renders on the main thread then.
+ */
+export async function renderInWorker(job: WorkerRenderJob): Promise<Blob | null> {
+    if (!canUseImageWorker()) return null;
+
+    let pooled: PooledWorker;
+    try {
+        pooled = getWorker();
+    } catch {
+        disableWorkers('Image worker failed to start');
+        return null;
+    }
+
+    const id = nextJobId++;
+    try {
+        return await new Promise<Blob>((resolve, reject) => {
+            pooled.pending.set(id, { resolve, reject });
+            // The bitmap is cloned, the caller keeps its own copy for further renders
+            pooled.worker.postMessage({ id, ...job });
+        });
+    } catch (error) {
+        if (workersUnavailable) return null;
+        throw error;
+    }
+}
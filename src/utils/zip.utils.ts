@@ -0,0 +1,267 @@
+import { createAbortError } from './abort.utils';
+
+export interface ZipEntry {
+    name: string;
+    size: number;           // Uncompressed size declared by the archive
+    compressedSize: number;
+    method: number;         // 0 = stored, 8 = deflate
+    offset: number;         // Local header offset
+    encrypted: boolean;
+    isDirectory: boolean;
+    lastModified?: Date;
+}
+
+const EOCD_SIGNATURE = 0x06054b50;
+const ZIP64_LOCATOR_SIGNATURE = 0x07064b50;
+const ZIP64_EOCD_SIGNATURE = 0x06064b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+// End of central directory record plus the longest possible comment
+const MAX_EOCD_SIZE = 22 + 0xffff;
+const ZIP64_MARKER = 0xffffffff;
+
+async function readBytes(blob: Blob, start: number, end: number): Promise<Uint8Array> {
+    return new Uint8Array(await blob.slice(start, end).arrayBuffer());
+}
+
+function view(bytes: Uint8Array): DataView {
+    return new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+}
+
+function readUint64(data: DataView, offset: number): number {
+    return Number(data.getBigUint64(offset, true));
+}
+
+function dosDateTime(date: number, time: number): Date | undefined {
+    if (!date) return undefined;
+    return new Date(
+        ((date >> 9) & 0x7f) + 1980, ((date >> 5) & 0x0f) - 1, date & 0x1f,
+        (time >> 11) & 0x1f, (time >> 5) & 0x3f, (time & 0x1f) * 2
+    );
+}
+
+/**
+ * Check the magic bytes of a local file header
+ */
+export async function isZipFile(blob: Blob): Promise<boolean> {
+    if (blob.size < 4) return false;
+    return view(await readBytes(blob, 0, 4)).getUint32(0, true) === LOCAL_HEADER_SIGNATURE;
+}
+
+/**
+ * List the entries of a ZIP archive from its central directory (ZIP64 included).
+ * Only the directory is read, entries are inflated one by one with readZipEntry.
+ */
+export async function readZipEntries(blob: Blob): Promise<ZipEntry[]> {
+    const tailStart = Math.max(0, blob.size - MAX_EOCD_SIZE);
+    const tail = await readBytes(blob, tailStart, blob.size);
+    const tailView = view(tail);
+
+    let eocd = -1;
+    for (let i = tail.length - 22; i >= 0; i--) {
+        if (tailView.getUint32(i, true) === EOCD_SIGNATURE) {
+            eocd = i;
+            break;
+        }
+    }
+    if (eocd === -1) {
+        throw new Error('Not a ZIP archive or the archive is truncated');
+    }
+
+    let entryCount = tailView.getUint16(eocd + 10, true);
+    let directorySize = tailView.getUint32(eocd + 12, true);
+    let directoryOffset = tailView.getUint32(eocd + 16, true);
+
+    // ZIP64 keeps the real values in its own end record, found through the locator
+    const locator = eocd - 20;
+    if (locator >= 0 && tailView.getUint32(locator, true) === ZIP64_LOCATOR_SIGNATURE) {
+        const recordOffset = readUint64(tailView, locator + 8);
+        const record = view(await readBytes(blob, recordOffset, recordOffset + 56));
+        if (record.getUint32(0, true) === ZIP64_EOCD_SIGNATURE) {
+            entryCount = readUint64(record, 32);
+            directorySize = readUint64(record, 40);
+            directoryOffset = readUint64(record, 48);
+        }
+    }
+
+    const directory = await readBytes(blob, directoryOffset, directoryOffset + directorySize);
+    const data = view(directory);
+    const decoder = new TextDecoder();
+    const entries: ZipEntry[] = [];
+
+    let position = 0;
+    for (let i = 0; i < entryCount; i++) {
+        if (position + 46 > directory.length || data.getUint32(position, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error('Corrupted ZIP central directory');
+        }
+
+        const flags = data.getUint16(position + 8, true);
+        const nameLength = data.getUint16(position + 28, true);
+        const extraLength = data.getUint16(position + 30, true);
+        const commentLength = data.getUint16(position + 32, true);
+        const name = decoder.decode(directory.subarray(position + 46, position + 46 + nameLength));
+
+        let compressedSize = data.getUint32(position + 20, true);
+        let size = data.getUint32(position + 24, true);
+        let offset = data.getUint32(position + 42, true);
+
+        // ZIP64 extra field: only the values marked 0xFFFFFFFF are present, in this order
+        let extra = position + 46 + nameLength;
+        const extraEnd = extra + extraLength;
+        while (extra + 4 <= extraEnd) {
+            const id = data.getUint16(extra, true);
+            const length = data.getUint16(extra + 2, true);
+            if (id === 0x0001) {
+                let field = extra + 4;
+                if (size === ZIP64_MARKER) {
+                    size = readUint64(data, field);
+                    field += 8;
+                }
+                if (compressedSize === ZIP64_MARKER) {
+                    compressedSize = readUint64(data, field);
+                    field += 8;
+                }
+                if (offset === ZIP64_MARKER) {
+                    offset = readUint64(data, field);
+                }
+            }
+            extra += 4 + length;
+        }
+
+        entries.push({
+            name,
+            size,
+            compressedSize,
+            method: data.getUint16(position + 10, true),
+            offset,
+            encrypted: (flags & 0x1) !== 0,
+            isDirectory: name.endsWith('/'),
+            lastModified: dosDateTime(data.getUint16(position + 14, true), data.getUint16(position + 12, true))
+        });
+
+        position = extraEnd + commentLength;
+    }
+
+    return entries;
+}
+
+/**
+ * Run bytes through a DecompressionStream, stopping once the output passes maxSize (zip bombs)
+ */
+export async function decompressBytes(
+    input: Blob | Uint8Array,
+    format: 'deflate-raw' | 'gzip',
+    maxSize = Infinity,
+    signal?: AbortSignal
+): Promise<Uint8Array> {
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('DecompressionStream is not supported in this environment');
+    }
+
+    const source = input instanceof Uint8Array ? new Blob([input]) : input;
+    const reader = source.stream().pipeThrough(new DecompressionStream(format)).getReader();
+    const chunks: Uint8Array[] = [];
+    let total = 0;
+
+    for (;;) {
+        if (signal?.aborted) {
+            await reader.cancel();
+            throw createAbortError();
+        }
+        const { done, value } = await reader.read();
+        if (done) break;
+        total += value.length;
+        if (total > maxSize) {
+            await reader.cancel();
+            throw new Error(`Decompressed data is larger than ${maxSize} bytes`);
+        }
+        chunks.push(value);
+    }
+
+    const output = new Uint8Array(total);
+    let position = 0;
+    for (const chunk of chunks) {
+        output.set(chunk, position);
+        position += chunk.length;
+    }
+    return output;
+}
+
+/**
+ * Compressed data of an entry, located through its local header
+ */
+async function getEntryData(blob: Blob, entry: ZipEntry): Promise<Blob> {
+    const header = view(await readBytes(blob, entry.offset, entry.offset + 30));
+    if (header.getUint32(0, true) !== LOCAL_HEADER_SIGNATURE) {
+        throw new Error(`Corrupted local header for ${entry.name}`);
+    }
+
+    const start = entry.offset + 30 + header.getUint16(26, true) + header.getUint16(28, true);
+    return blob.slice(start, start + entry.compressedSize);
+}
+
+/**
+ * Real uncompressed size of an entry, counted while inflating without keeping the data.
+ * Declared sizes come from the archive itself, this is what a zip bomb can't fake.
+ * Counting stops once maxSize is passed, the result is then just above it.
+ */
+export async function measureZipEntry(blob: Blob, entry: ZipEntry, maxSize = Infinity): Promise<number> {
+    if (entry.encrypted) {
+        throw new Error(`${entry.name} is encrypted`);
+    }
+
+    const compressed = await getEntryData(blob, entry);
+    if (entry.method === 0) {
+        return compressed.size;
+    }
+    if (entry.method !== 8) {
+        throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+    }
+    if (typeof DecompressionStream === 'undefined') {
+        throw new Error('DecompressionStream is not supported in this environment');
+    }
+
+    const reader = compressed.stream().pipeThrough(new DecompressionStream('deflate-raw')).getReader();
+    let total = 0;
+    try {
+        for (;;) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            total += value.length;
+            if (total > maxSize) break;
+        }
+    } finally {
+        await reader.cancel();
+    }
+    return total;
+}
+
+/**
+ * Read and decompress a single entry
+ */
+export async function readZipEntry(blob: Blob, entry: ZipEntry, maxSize = Infinity): Promise<Uint8Array> {
+    if (entry.encrypted) {
+        throw new Error(`${entry.name} is encrypted`);
+    }
+    if (entry.size > maxSize) {
+        throw new Error(`${entry.name} is larger than ${maxSize} bytes`);
+    }
+
+    const compressed = await getEntryData(blob, entry);
+
+    if (entry.method === 0) {
+        return new Uint8Array(await compressed.arrayBuffer());
+    }
+    if (entry.method === 8) {
+        // The declared size may lie, cap the real output too
+        return decompressBytes(compressed, 'deflate-raw', Math.min(maxSize, entry.size));
+    }
+    throw new Error(`Unsupported compression method ${entry.method} for ${entry.name}`);
+}
+
+/**
+ * Read an entry as UTF-8 text
+ */
+export async function readZipText(blob: Blob, entry: ZipEntry, maxSize?: number): Promise<string> {
+    return new TextDecoder().decode(await readZipEntry(blob, entry, maxSize));
+}